@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable, Writable } from "node:stream";
+import type { RconClient } from "./index.js";
+import { RconAuthError, RconConnectionRefusedError, RconTimeoutError } from "./errors.js";
+import {
+  CliUsageError,
+  EXIT_CODES,
+  exitCodeFor,
+  loadProfiles,
+  main,
+  parseCliArgs,
+  resolveTarget,
+} from "./cli.js";
+import type { CliIo } from "./cli.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Writable that records everything written to it. */
+function capture() {
+  let text = "";
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      text += chunk.toString();
+      callback();
+    },
+  });
+  return { stream, text: () => text };
+}
+
+function createFakeClient() {
+  return {
+    connect: vi.fn(async () => {}),
+    execute: vi.fn(async (command: string) => `ran ${command}`),
+    disconnect: vi.fn(),
+    on: vi.fn(),
+    isConnected: true,
+  };
+}
+
+function createIo(client: ReturnType<typeof createFakeClient>, overrides: Partial<CliIo> = {}) {
+  const stdout = capture();
+  const stderr = capture();
+  const io: CliIo = {
+    env: { CS2_RCON_CONFIG: "/nonexistent/cs2-rcon.json" },
+    stdin: Readable.from([]),
+    stdout: stdout.stream,
+    stderr: stderr.stream,
+    createClient: () => client as unknown as RconClient,
+    ...overrides,
+  };
+  return { io, stdout: stdout.text, stderr: stderr.text };
+}
+
+// ---------------------------------------------------------------------------
+// Argument parsing
+// ---------------------------------------------------------------------------
+
+describe("parseCliArgs", () => {
+  it("parses connection flags", () => {
+    const args = parseCliArgs(["-H", "10.0.0.5", "-P", "27016", "-p", "secret", "status"]);
+
+    expect(args).toMatchObject({ host: "10.0.0.5", port: "27016", password: "secret" });
+    expect(args.commands).toEqual(["status"]);
+  });
+
+  it("joins positionals into a single command", () => {
+    expect(parseCliArgs(["mp_restartgame", "1"]).commands).toEqual(["mp_restartgame 1"]);
+  });
+
+  it("collects repeated -c commands before positionals", () => {
+    const args = parseCliArgs(["-c", "mp_warmup_end", "--command", "say hi", "status"]);
+
+    expect(args.commands).toEqual(["mp_warmup_end", "say hi", "status"]);
+  });
+
+  it("defaults the timeout to 10 seconds", () => {
+    expect(parseCliArgs([]).timeoutMs).toBe(10_000);
+    expect(parseCliArgs(["--timeout", "2500"]).timeoutMs).toBe(2_500);
+  });
+
+  it("rejects unknown flags and invalid timeouts", () => {
+    expect(() => parseCliArgs(["--bogus"])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(["-t", "soon"])).toThrow(CliUsageError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Target resolution
+// ---------------------------------------------------------------------------
+
+describe("resolveTarget", () => {
+  const profiles = {
+    profiles: { prod: { host: "prod.example.com", port: 27020, password: "prodpw" } },
+  };
+
+  it("prefers flags over env over profile", () => {
+    const args = parseCliArgs(["--profile", "prod", "-H", "flag-host"]);
+    const env = { CS2_RCON_HOST: "env-host", CS2_RCON_PASSWORD: "envpw" };
+
+    expect(resolveTarget(args, env, profiles)).toEqual({
+      host: "flag-host",
+      port: 27020,
+      password: "envpw",
+    });
+  });
+
+  it("selects the profile from CS2_RCON_PROFILE", () => {
+    const target = resolveTarget(parseCliArgs([]), { CS2_RCON_PROFILE: "prod" }, profiles);
+
+    expect(target.host).toBe("prod.example.com");
+  });
+
+  it("defaults the port to 27015", () => {
+    const args = parseCliArgs(["-H", "h", "-p", "pw"]);
+
+    expect(resolveTarget(args, {}).port).toBe(27015);
+  });
+
+  it("accepts an empty password", () => {
+    expect(resolveTarget(parseCliArgs(["-H", "h", "-p", ""]), {}).password).toBe("");
+  });
+
+  it("rejects missing host or password, bad ports and unknown profiles", () => {
+    expect(() => resolveTarget(parseCliArgs(["-p", "pw"]), {})).toThrow(/No host/);
+    expect(() => resolveTarget(parseCliArgs(["-H", "h"]), {})).toThrow(/No password/);
+    expect(() => resolveTarget(parseCliArgs(["-H", "h", "-p", "x", "-P", "99999"]), {})).toThrow(
+      /Invalid port/,
+    );
+    expect(() => resolveTarget(parseCliArgs(["--profile", "nope"]), {}, profiles)).toThrow(
+      /Unknown profile/,
+    );
+  });
+});
+
+describe("loadProfiles", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it("reads the profile file", async () => {
+    dir = await mkdtemp(join(tmpdir(), "cs2-rcon-"));
+    const path = join(dir, "profiles.json");
+    await writeFile(path, JSON.stringify({ profiles: { lan: { host: "192.168.1.10" } } }));
+
+    expect(await loadProfiles(path)).toEqual({ profiles: { lan: { host: "192.168.1.10" } } });
+  });
+
+  it("treats a missing file as empty", async () => {
+    expect(await loadProfiles("/nonexistent/cs2-rcon.json")).toEqual({});
+  });
+
+  it("reports malformed JSON as a usage error", async () => {
+    dir = await mkdtemp(join(tmpdir(), "cs2-rcon-"));
+    const path = join(dir, "profiles.json");
+    await writeFile(path, "{ not json");
+
+    await expect(loadProfiles(path)).rejects.toBeInstanceOf(CliUsageError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Exit codes
+// ---------------------------------------------------------------------------
+
+describe("exitCodeFor", () => {
+  it("maps errors to stable exit codes", () => {
+    expect(exitCodeFor(new CliUsageError("x"))).toBe(EXIT_CODES.USAGE);
+    expect(exitCodeFor(new RconAuthError())).toBe(EXIT_CODES.AUTH_FAILED);
+    expect(exitCodeFor(new RconTimeoutError("slow", 100))).toBe(EXIT_CODES.TIMEOUT);
+    expect(exitCodeFor(new RconConnectionRefusedError("refused"))).toBe(EXIT_CODES.CONNECTION);
+    expect(exitCodeFor(new Error("boom"))).toBe(EXIT_CODES.ERROR);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// main
+// ---------------------------------------------------------------------------
+
+describe("main", () => {
+  const connectArgs = ["-H", "10.0.0.5", "-p", "pw"];
+
+  it("runs one-shot commands and prints the responses", async () => {
+    const client = createFakeClient();
+    const { io, stdout } = createIo(client);
+
+    const code = await main([...connectArgs, "-c", "status", "-c", "stats"], io);
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(client.connect).toHaveBeenCalledWith("10.0.0.5", 27015, "pw", {
+      timeoutMs: 10_000,
+      authTimeoutMs: 10_000,
+    });
+    expect(stdout()).toBe("ran status\nran stats\n");
+    expect(client.disconnect).toHaveBeenCalled();
+  });
+
+  it("reads a command batch from stdin, skipping blanks and comments", async () => {
+    const client = createFakeClient();
+    const stdin = Readable.from(["# warmup\nmp_warmup_end\n\n", "say live\r\n"]);
+    const { io } = createIo(client, { stdin });
+
+    const code = await main(connectArgs, io);
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(client.execute.mock.calls.map(([command]) => command)).toEqual([
+      "mp_warmup_end",
+      "say live",
+    ]);
+  });
+
+  it("stops at the first failing command", async () => {
+    const client = createFakeClient();
+    client.execute.mockRejectedValueOnce(new RconTimeoutError("Command timed out", 10_000));
+    const { io, stderr } = createIo(client);
+
+    const code = await main([...connectArgs, "-c", "status", "-c", "stats"], io);
+
+    expect(code).toBe(EXIT_CODES.TIMEOUT);
+    expect(client.execute).toHaveBeenCalledOnce();
+    expect(stderr()).toContain("Command timed out");
+  });
+
+  it("exits with AUTH_FAILED when the password is rejected", async () => {
+    const client = createFakeClient();
+    client.connect.mockRejectedValue(new RconAuthError());
+    const { io } = createIo(client);
+
+    expect(await main([...connectArgs, "status"], io)).toBe(EXIT_CODES.AUTH_FAILED);
+  });
+
+  it("exits with USAGE without connecting when no host is configured", async () => {
+    const client = createFakeClient();
+    const { io, stderr } = createIo(client);
+
+    expect(await main(["status"], io)).toBe(EXIT_CODES.USAGE);
+    expect(client.connect).not.toHaveBeenCalled();
+    expect(stderr()).toContain("Usage: cs2-rcon");
+  });
+
+  it("prints help", async () => {
+    const client = createFakeClient();
+    const { io, stdout } = createIo(client);
+
+    expect(await main(["--help"], io)).toBe(EXIT_CODES.OK);
+    expect(stdout()).toContain("Exit codes:");
+  });
+});
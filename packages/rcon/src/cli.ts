@@ -0,0 +1,347 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { createInterface } from "node:readline";
+import { parseArgs } from "node:util";
+import { RconClient } from "./index.js";
+import { RconError } from "./errors.js";
+
+/** Process exit codes of `cs2-rcon`, stable for use in scripts. */
+export const EXIT_CODES = {
+  OK: 0,
+  /** Any failure not covered below. */
+  ERROR: 1,
+  /** Bad flags, or no host/password configured. */
+  USAGE: 2,
+  /** Wrong password, or the address is banned. */
+  AUTH_FAILED: 3,
+  /** Connecting or a command timed out. */
+  TIMEOUT: 4,
+  /** The server refused or dropped the connection. */
+  CONNECTION: 5,
+} as const;
+
+/** Where to connect and with which password. */
+export interface CliTarget {
+  host: string;
+  port: number;
+  password: string;
+}
+
+/** Contents of the profile file: named targets, any field may be left to flags or env. */
+export interface CliProfiles {
+  profiles?: Record<string, Partial<CliTarget>>;
+}
+
+/** Parsed command line, before env and profile defaults are applied. */
+export interface CliArgs {
+  host?: string;
+  port?: string;
+  password?: string;
+  profile?: string;
+  config?: string;
+  timeoutMs: number;
+  help: boolean;
+  commands: string[];
+}
+
+/** Process streams and environment, injectable for tests. */
+export interface CliIo {
+  env: NodeJS.ProcessEnv;
+  stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  createClient: () => RconClient;
+}
+
+/** Invalid invocation; reported with exit code `USAGE`. */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+const DEFAULT_PORT = 27015;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const HISTORY_SIZE = 500;
+
+export const USAGE = `Usage: cs2-rcon [options] [command...]
+
+Runs the command given as arguments, each -c command in turn, or the
+commands read from stdin one per line.  Without any command and with a
+terminal attached, starts an interactive console.
+
+Options:
+  -H, --host <host>          Server address           (env: CS2_RCON_HOST)
+  -P, --port <port>          RCON port, default 27015 (env: CS2_RCON_PORT)
+  -p, --password <password>  RCON password            (env: CS2_RCON_PASSWORD)
+  -c, --command <command>    Command to run; repeatable
+  -t, --timeout <ms>         Connect and per-command timeout, default 10000
+      --profile <name>       Use a profile from the profile file (env: CS2_RCON_PROFILE)
+      --config <path>        Profile file, default ~/.cs2-rcon.json (env: CS2_RCON_CONFIG)
+  -h, --help                 Show this help
+
+Exit codes:
+  0 success, 1 other error, 2 usage error, 3 authentication failed,
+  4 timeout, 5 connection refused or lost
+`;
+
+/** Parse `argv` (without the node and script paths). */
+export function parseCliArgs(argv: string[]): CliArgs {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        host: { type: "string", short: "H" },
+        port: { type: "string", short: "P" },
+        password: { type: "string", short: "p" },
+        command: { type: "string", short: "c", multiple: true },
+        timeout: { type: "string", short: "t" },
+        profile: { type: "string" },
+        config: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    throw new CliUsageError((err as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  const timeoutMs = values.timeout === undefined ? DEFAULT_TIMEOUT_MS : Number(values.timeout);
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new CliUsageError(`Invalid timeout: ${values.timeout}`);
+  }
+
+  // Positionals form a single command so `cs2-rcon mp_restartgame 1` works unquoted
+  const commands = [...(values.command ?? [])];
+  if (positionals.length > 0) {
+    commands.push(positionals.join(" "));
+  }
+
+  return {
+    host: values.host,
+    port: values.port,
+    password: values.password,
+    profile: values.profile,
+    config: values.config,
+    timeoutMs,
+    help: values.help ?? false,
+    commands,
+  };
+}
+
+/** Path of the profile file: `--config`, then `CS2_RCON_CONFIG`, then `~/.cs2-rcon.json`. */
+export function profilePath(args: CliArgs, env: NodeJS.ProcessEnv): string {
+  return args.config ?? env.CS2_RCON_CONFIG ?? join(homedir(), ".cs2-rcon.json");
+}
+
+/**
+ * Work out the target from, in decreasing priority, flags, environment
+ * variables and the selected profile.
+ */
+export function resolveTarget(
+  args: CliArgs,
+  env: NodeJS.ProcessEnv,
+  profiles: CliProfiles = {},
+): CliTarget {
+  const profileName = args.profile ?? env.CS2_RCON_PROFILE;
+  let profile: Partial<CliTarget> = {};
+  if (profileName) {
+    const found = profiles.profiles?.[profileName];
+    if (!found) {
+      throw new CliUsageError(`Unknown profile: ${profileName}`);
+    }
+    profile = found;
+  }
+
+  const host = args.host ?? env.CS2_RCON_HOST ?? profile.host;
+  const rawPort = args.port ?? env.CS2_RCON_PORT ?? profile.port ?? DEFAULT_PORT;
+  const password = args.password ?? env.CS2_RCON_PASSWORD ?? profile.password;
+
+  if (!host) {
+    throw new CliUsageError("No host given (use --host, CS2_RCON_HOST or a profile)");
+  }
+  if (password === undefined) {
+    throw new CliUsageError("No password given (use --password, CS2_RCON_PASSWORD or a profile)");
+  }
+  const port = Number(rawPort);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new CliUsageError(`Invalid port: ${rawPort}`);
+  }
+
+  return { host, port, password };
+}
+
+/** Read the profile file; a missing file is the same as an empty one. */
+export async function loadProfiles(path: string): Promise<CliProfiles> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw err;
+  }
+  try {
+    return JSON.parse(text) as CliProfiles;
+  } catch (err) {
+    throw new CliUsageError(`Invalid profile file ${path}: ${(err as Error).message}`);
+  }
+}
+
+/** Map a failure to the process exit code reported for it. */
+export function exitCodeFor(err: unknown): number {
+  if (err instanceof CliUsageError) return EXIT_CODES.USAGE;
+  if (!(err instanceof RconError)) return EXIT_CODES.ERROR;
+
+  switch (err.code) {
+    case "AUTH_FAILED":
+    case "BANNED":
+      return EXIT_CODES.AUTH_FAILED;
+    case "TIMEOUT":
+      return EXIT_CODES.TIMEOUT;
+    case "CONNECTION_REFUSED":
+    case "CONNECTION_CLOSED":
+    case "NOT_CONNECTED":
+      return EXIT_CODES.CONNECTION;
+    default:
+      return EXIT_CODES.ERROR;
+  }
+}
+
+function writeResponse(out: NodeJS.WritableStream, response: string): void {
+  if (response.length === 0) return;
+  out.write(response.endsWith("\n") ? response : `${response}\n`);
+}
+
+/** Run `commands` in order, stopping at the first failure. */
+export async function runCommands(
+  client: RconClient,
+  commands: Iterable<string> | AsyncIterable<string>,
+  out: NodeJS.WritableStream,
+  timeoutMs: number,
+): Promise<void> {
+  for await (const command of commands) {
+    writeResponse(out, await client.execute(command, { timeoutMs }));
+  }
+}
+
+/** Non-empty lines of `input`, skipping `#` comments. */
+async function* readBatch(input: NodeJS.ReadableStream): AsyncGenerator<string> {
+  const rl = createInterface({ input, crlfDelay: Infinity });
+  for await (const line of rl) {
+    const command = line.trim();
+    if (command && !command.startsWith("#")) {
+      yield command;
+    }
+  }
+}
+
+async function readHistory(path: string): Promise<string[]> {
+  try {
+    return (await readFile(path, "utf8")).split("\n").filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Interactive console with line editing and a history persisted to
+ * `~/.cs2_rcon_history`.  Failed commands are reported and the session
+ * continues, unless the connection itself is gone.
+ */
+async function repl(client: RconClient, io: CliIo, timeoutMs: number): Promise<number> {
+  const historyPath = join(homedir(), ".cs2_rcon_history");
+  let history = await readHistory(historyPath);
+  const rl = createInterface({
+    input: io.stdin,
+    output: io.stdout,
+    prompt: "rcon> ",
+    history,
+    historySize: HISTORY_SIZE,
+  });
+  rl.on("history", (lines) => {
+    history = lines;
+  });
+
+  let exitCode: number = EXIT_CODES.OK;
+  rl.prompt();
+  for await (const line of rl) {
+    const command = line.trim();
+    if (command === "exit" || command === "quit") break;
+
+    if (command) {
+      try {
+        writeResponse(io.stdout, await client.execute(command, { timeoutMs }));
+      } catch (err) {
+        io.stderr.write(`${(err as Error).message}\n`);
+        if (!client.isConnected) {
+          exitCode = exitCodeFor(err);
+          break;
+        }
+      }
+    }
+    rl.prompt();
+  }
+  rl.close();
+
+  // History is newest-first, as readline keeps it
+  await writeFile(historyPath, history.join("\n") + "\n", { mode: 0o600 }).catch(() => {});
+  return exitCode;
+}
+
+const defaultIo: CliIo = {
+  env: process.env,
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+  createClient: () => new RconClient(),
+};
+
+/**
+ * Entry point of the `cs2-rcon` bin.  Resolves with the process exit code
+ * instead of exiting, so it can be driven from tests.
+ */
+export async function main(argv: string[], io: CliIo = defaultIo): Promise<number> {
+  let args: CliArgs;
+  let target: CliTarget;
+  try {
+    args = parseCliArgs(argv);
+    if (args.help) {
+      io.stdout.write(USAGE);
+      return EXIT_CODES.OK;
+    }
+    target = resolveTarget(args, io.env, await loadProfiles(profilePath(args, io.env)));
+  } catch (err) {
+    io.stderr.write(`cs2-rcon: ${(err as Error).message}\n`);
+    if (err instanceof CliUsageError) io.stderr.write(`\n${USAGE}`);
+    return exitCodeFor(err);
+  }
+
+  const client = io.createClient();
+  // Socket errors also reject the pending call; don't let them crash the process
+  client.on("error", () => {});
+
+  try {
+    await client.connect(target.host, target.port, target.password, {
+      timeoutMs: args.timeoutMs,
+      authTimeoutMs: args.timeoutMs,
+    });
+
+    if (args.commands.length > 0) {
+      await runCommands(client, args.commands, io.stdout, args.timeoutMs);
+    } else if (io.stdin.isTTY) {
+      return await repl(client, io, args.timeoutMs);
+    } else {
+      await runCommands(client, readBatch(io.stdin), io.stdout, args.timeoutMs);
+    }
+    return EXIT_CODES.OK;
+  } catch (err) {
+    io.stderr.write(`cs2-rcon: ${(err as Error).message}\n`);
+    return exitCodeFor(err);
+  } finally {
+    client.disconnect();
+  }
+}
@@ -0,0 +1,102 @@
+/** Stable, machine-readable identifiers carried by every `RconError`. */
+export type RconErrorCode =
+  | "AUTH_FAILED"
+  | "BANNED"
+  | "CONNECTION_REFUSED"
+  | "CONNECTION_CLOSED"
+  | "NOT_CONNECTED"
+  | "QUEUE_FULL"
+  | "TIMEOUT"
+  | "ABORTED";
+
+/**
+ * Base class for every error raised by `RconClient`.
+ *
+ * Callers should branch on `code` (or `instanceof`) rather than on the
+ * message text, which is meant for humans and may change.
+ */
+export class RconError extends Error {
+  constructor(
+    message: string,
+    readonly code: RconErrorCode,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "RconError";
+  }
+}
+
+/** The server rejected the RCON password. */
+export class RconAuthError extends RconError {
+  constructor(message = "Authentication failed: wrong RCON password") {
+    super(message, "AUTH_FAILED");
+    this.name = "RconAuthError";
+  }
+}
+
+/**
+ * The server closed the connection before answering the auth packet.
+ *
+ * Source servers do this to addresses banned after too many bad passwords
+ * (`sv_rcon_maxfailures` / `sv_rcon_banpenalty`).
+ */
+export class RconBannedError extends RconError {
+  constructor(
+    message = "Connection closed before authentication; this address may be banned for too many failed RCON attempts",
+  ) {
+    super(message, "BANNED");
+    this.name = "RconBannedError";
+  }
+}
+
+/** Nothing is listening on the RCON port. */
+export class RconConnectionRefusedError extends RconError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, "CONNECTION_REFUSED", options);
+    this.name = "RconConnectionRefusedError";
+  }
+}
+
+/** The connection was closed while a request was still waiting for its reply. */
+export class RconConnectionClosedError extends RconError {
+  constructor(message = "Connection closed") {
+    super(message, "CONNECTION_CLOSED");
+    this.name = "RconConnectionClosedError";
+  }
+}
+
+/** A command was issued without an authenticated connection. */
+export class RconNotConnectedError extends RconError {
+  constructor(message = "Not authenticated") {
+    super(message, "NOT_CONNECTED");
+    this.name = "RconNotConnectedError";
+  }
+}
+
+/** The command queue has reached `maxQueueLength`. */
+export class RconQueueFullError extends RconError {
+  constructor(message = "Command queue is full") {
+    super(message, "QUEUE_FULL");
+    this.name = "RconQueueFullError";
+  }
+}
+
+/** Raised when connecting, authenticating or a command exceeds its timeout. */
+export class RconTimeoutError extends RconError {
+  constructor(
+    message: string,
+    /** The timeout that elapsed, in milliseconds. */
+    readonly timeoutMs: number,
+  ) {
+    super(message, "TIMEOUT");
+    this.name = "RconTimeoutError";
+  }
+}
+
+/** Raised when a connect or command is cancelled through its `AbortSignal`. */
+export class RconAbortError extends RconError {
+  constructor(message: string) {
+    super(message, "ABORTED");
+    this.name = "RconAbortError";
+  }
+}
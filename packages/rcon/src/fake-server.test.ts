@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from "vitest";
+import { RconClient, RconAuthError, RconBannedError } from "./index.js";
+import { FakeRconServer } from "./fake-server.js";
+
+// ---------------------------------------------------------------------------
+// End-to-end: RconClient against FakeRconServer over real TCP
+// ---------------------------------------------------------------------------
+
+describe("FakeRconServer", () => {
+  let server: FakeRconServer;
+  let client: RconClient;
+  let port: number;
+
+  beforeEach(async () => {
+    server = new FakeRconServer({ password: "pw" });
+    port = await server.listen();
+    client = new RconClient();
+    client.on("error", () => {});
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await server.close();
+  });
+
+  it("authenticates with the right password", async () => {
+    await client.connect("127.0.0.1", port, "pw");
+
+    expect(client.isConnected).toBe(true);
+    expect(server.connectionCount).toBe(1);
+  });
+
+  it("rejects a wrong password with id -1", async () => {
+    await expect(client.connect("127.0.0.1", port, "nope")).rejects.toBeInstanceOf(RconAuthError);
+  });
+
+  it("closes its socket after a rejected password", async () => {
+    await expect(client.connect("127.0.0.1", port, "nope")).rejects.toBeInstanceOf(RconAuthError);
+
+    await vi.waitFor(() => expect(server.connectionCount).toBe(0));
+  });
+
+  it("closes the connection on addresses banned for repeated failures", async () => {
+    await server.close();
+    server = new FakeRconServer({ password: "pw", banAfterFailures: 1 });
+    port = await server.listen();
+
+    await expect(client.connect("127.0.0.1", port, "nope")).rejects.toBeInstanceOf(RconAuthError);
+    await expect(client.connect("127.0.0.1", port, "pw")).rejects.toBeInstanceOf(RconBannedError);
+  });
+
+  it("answers canned status, stats and cvarlist", async () => {
+    await client.connect("127.0.0.1", port, "pw");
+
+    expect(await client.execute("status")).toContain("hostname: Fake CS2 Server");
+    expect(await client.execute("stats")).toMatch(/^CPU\s+NetIn/);
+    expect(await client.execute("cvarlist")).toContain("mp_maxrounds");
+  });
+
+  it("gets and sets cvars and changes level", async () => {
+    await client.connect("127.0.0.1", port, "pw");
+
+    await client.execute("mp_maxrounds 30");
+    await client.execute("changelevel de_mirage");
+
+    expect(await client.execute("mp_maxrounds")).toBe("mp_maxrounds = 30\n");
+    expect(server.map).toBe("de_mirage");
+    expect(await client.execute("status")).toContain("map     : de_mirage");
+  });
+
+  it("replies to unknown commands like CS2", async () => {
+    await client.connect("127.0.0.1", port, "pw");
+
+    expect(await client.execute("bogus_cmd 1")).toBe('Unknown command "bogus_cmd"\n');
+  });
+
+  it("runs scripted handlers and records received commands", async () => {
+    server.handle("mp_warmup_end", () => "Warmup ended\n");
+    await client.connect("127.0.0.1", port, "pw");
+
+    expect(await client.execute("mp_warmup_end")).toBe("Warmup ended\n");
+    expect(server.commands).toEqual(["mp_warmup_end"]);
+  });
+
+  it("splits long responses across packets, multibyte characters included", async () => {
+    server.maxBodyBytes = 100;
+    const long = "€".repeat(500);
+    server.handle("long", () => long);
+    await client.connect("127.0.0.1", port, "pw");
+
+    const packets: number[] = [];
+    client.on("response", (packet) => packets.push(packet.id));
+
+    expect(await client.execute("long")).toBe(long);
+    // 1500 bytes in 100-byte packets, plus the sentinel reply
+    expect(packets).toHaveLength(16);
+  });
+
+  it("keeps replies in order under latency", async () => {
+    server.latencyMs = 20;
+    await client.connect("127.0.0.1", port, "pw");
+
+    const results = await Promise.all([
+      client.execute("echo one"),
+      client.execute("echo two"),
+      client.execute("echo three"),
+    ]);
+
+    expect(results).toEqual(["one\n", "two\n", "three\n"]);
+  });
+
+  it("drops connections on demand", async () => {
+    await client.connect("127.0.0.1", port, "pw");
+    const disconnected = new Promise<void>((resolve) => client.once("disconnect", resolve));
+
+    server.dropConnections();
+    await disconnected;
+
+    expect(client.isConnected).toBe(false);
+  });
+});
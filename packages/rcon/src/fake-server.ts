@@ -0,0 +1,335 @@
+import net from "node:net";
+import { PacketType } from "./index.js";
+
+/**
+ * Produces the console output of a command.  `args` is everything after the
+ * command name, already trimmed.
+ */
+export type FakeCommandHandler = (args: string, server: FakeRconServer) => string | Promise<string>;
+
+export interface FakeRconServerOptions {
+  /** Password clients must authenticate with (default: "secret"). */
+  password?: string;
+  /** Extra or overriding command handlers, keyed by command name. */
+  handlers?: Record<string, FakeCommandHandler>;
+  /** Largest body sent in one packet; longer responses are split (default: 4096). */
+  maxBodyBytes?: number;
+  /** Delay before every reply, in milliseconds (default: 0). */
+  latencyMs?: number;
+  /**
+   * After this many wrong passwords from one address, further connections
+   * from it are closed as soon as they try to authenticate, like a Source
+   * server enforcing `sv_rcon_maxfailures` (default: never).
+   */
+  banAfterFailures?: number;
+}
+
+/** A player listed by the canned `status` output. */
+export interface FakePlayer {
+  userid: number;
+  name: string;
+  steamId: string;
+  connected: string;
+  ping: number;
+  loss: number;
+  state: string;
+  address: string;
+}
+
+const MAX_BODY_BYTES = 4096;
+const BOT_PLAYERS = 2;
+
+const DEFAULT_PLAYERS: FakePlayer[] = [
+  {
+    userid: 2,
+    name: "Alice",
+    steamId: "STEAM_1:0:12345678",
+    connected: "04:23",
+    ping: 45,
+    loss: 0,
+    state: "active",
+    address: "203.0.113.10:27005",
+  },
+  {
+    userid: 3,
+    name: "Bob",
+    steamId: "STEAM_1:1:87654321",
+    connected: "01:15",
+    ping: 12,
+    loss: 0,
+    state: "active",
+    address: "203.0.113.24:27005",
+  },
+];
+
+const DEFAULT_CVARS: [string, string, string][] = [
+  ["hostname", "Fake CS2 Server", "Hostname for server."],
+  ["sv_cheats", "0", "Allow cheats on server"],
+  ["mp_maxrounds", "24", "Max number of rounds to play before server changes maps"],
+  ["mp_roundtime", "1.92", "How many minutes each round takes."],
+  ["mp_freezetime", "15", "How many seconds to keep players frozen when the round starts"],
+  ["sv_password", "", "Server password for entry into multiplayer games"],
+];
+
+function encodePacket(id: number, type: number, body: Buffer): Buffer {
+  const size = 4 + 4 + body.length + 1 + 1;
+  const packet = Buffer.alloc(4 + size);
+  packet.writeInt32LE(size, 0);
+  packet.writeInt32LE(id, 4);
+  packet.writeInt32LE(type, 8);
+  body.copy(packet, 12);
+  return packet;
+}
+
+function statusOutput(server: FakeRconServer): string {
+  const humans = server.players.length;
+  const lines = [
+    `hostname: ${server.cvars.get("hostname")}`,
+    "version : 1.40.1.0/13994 1373/8948 secure",
+    "os      :  Linux",
+    "type    :  community dedicated",
+    `map     : ${server.map}`,
+    "gotv    :  port 27020, delay 90.0s",
+    `players : ${humans} humans, ${BOT_PLAYERS} bots (${server.maxPlayers}/0 max) (not hibernating)`,
+    "",
+    "# userid name uniqueid connected ping loss state rate adr",
+    ...server.players.map(
+      (p, slot) =>
+        `# ${p.userid} ${slot + 1} "${p.name}" ${p.steamId} ${p.connected} ${p.ping} ${p.loss} ${p.state} 786432 ${p.address}`,
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+function statsOutput(server: FakeRconServer): string {
+  return (
+    "CPU    NetIn   NetOut    Uptime  Maps   FPS   Players  Svms    +-ms   ~tick\n" +
+    ` 10.5    1.2     0.8       5      2   128.00     ${server.players.length}      1.50   0.20   0.05\n`
+  );
+}
+
+function cvarlistOutput(server: FakeRconServer): string {
+  const rows = [...server.cvars.keys()].sort().map((name) => {
+    const value = server.cvars.get(name)!;
+    const help = server.cvarHelp.get(name) ?? "";
+    return `${name.padEnd(40)} : ${value.padEnd(10)} : , "sv"         : ${help}`;
+  });
+  return [
+    "cvar list",
+    "--------------",
+    ...rows,
+    "--------------",
+    `${rows.length} total convars/concommands`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * In-process CS2 RCON server speaking the real Source RCON wire format over
+ * TCP, for end-to-end tests and the server's offline demo mode.
+ *
+ * It authenticates like SRCDS (an empty RESPONSE_VALUE followed by the
+ * AUTH_RESPONSE, id -1 on a wrong password), answers commands in order,
+ * and splits long responses across packets.  Built-in handlers cover
+ * `status`, `stats`, `cvarlist`, `echo`, `say`, `changelevel`/`map` and
+ * getting or setting the cvars in `cvars`; anything else gets CS2's
+ * unknown command reply.
+ *
+ * Usage:
+ * ```ts
+ * const server = new FakeRconServer({ password: "pw" });
+ * const port = await server.listen();
+ * server.handle("mp_warmup_end", () => "");
+ * // ... connect an RconClient to 127.0.0.1:port ...
+ * await server.close();
+ * ```
+ */
+export class FakeRconServer {
+  password: string;
+  /** Largest body sent in one packet; change at any time. */
+  maxBodyBytes: number;
+  /** Delay before every reply; change at any time. */
+  latencyMs: number;
+  /** Every command received after authentication, sentinels excluded, in order. */
+  readonly commands: string[] = [];
+  readonly cvars = new Map<string, string>();
+  readonly cvarHelp = new Map<string, string>();
+  players: FakePlayer[] = DEFAULT_PLAYERS.map((p) => ({ ...p }));
+  map = "de_dust2";
+  maxPlayers = 10;
+
+  private readonly handlers = new Map<string, FakeCommandHandler>();
+  private readonly banAfterFailures: number;
+  private readonly failures = new Map<string, number>();
+  private readonly sockets = new Set<net.Socket>();
+  private readonly server = net.createServer((socket) => this.accept(socket));
+
+  constructor(options: FakeRconServerOptions = {}) {
+    this.password = options.password ?? "secret";
+    this.maxBodyBytes = options.maxBodyBytes ?? MAX_BODY_BYTES;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.banAfterFailures = options.banAfterFailures ?? Infinity;
+
+    for (const [name, value, help] of DEFAULT_CVARS) {
+      this.cvars.set(name, value);
+      this.cvarHelp.set(name, help);
+    }
+
+    this.handle("status", (_args, server) => statusOutput(server));
+    this.handle("stats", (_args, server) => statsOutput(server));
+    this.handle("cvarlist", (_args, server) => cvarlistOutput(server));
+    this.handle("echo", (args) => `${args}\n`);
+    this.handle("say", () => "");
+    const changelevel: FakeCommandHandler = (args, server) => {
+      if (args) server.map = args.split(/\s+/)[0];
+      return "";
+    };
+    this.handle("changelevel", changelevel);
+    this.handle("map", changelevel);
+
+    for (const [name, handler] of Object.entries(options.handlers ?? {})) {
+      this.handle(name, handler);
+    }
+  }
+
+  /** Register or replace the handler for `name` (case-insensitive). */
+  handle(name: string, handler: FakeCommandHandler): this {
+    this.handlers.set(name.toLowerCase(), handler);
+    return this;
+  }
+
+  /** Start listening; resolves with the bound port (ephemeral when `port` is 0). */
+  listen(port = 0, host = "127.0.0.1"): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve(this.port);
+      });
+    });
+  }
+
+  /** Port the server is bound to, or 0 when not listening. */
+  get port(): number {
+    const address = this.server.address();
+    return address && typeof address === "object" ? address.port : 0;
+  }
+
+  /** Number of open client connections. */
+  get connectionCount(): number {
+    return this.sockets.size;
+  }
+
+  /** Abruptly close every client connection, as a crashing server would. */
+  dropConnections(): void {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+  }
+
+  /** Drop all clients and stop listening. */
+  close(): Promise<void> {
+    this.dropConnections();
+    return new Promise((resolve) => {
+      if (!this.server.listening) return resolve();
+      this.server.close(() => resolve());
+    });
+  }
+
+  private accept(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on("close", () => this.sockets.delete(socket));
+    socket.on("error", () => {});
+
+    const address = socket.remoteAddress ?? "";
+    let authenticated = false;
+    let buffer = Buffer.alloc(0);
+    // Replies are chained so latency and async handlers never reorder them
+    let replies = Promise.resolve();
+
+    socket.on("data", (data) => {
+      buffer = Buffer.concat([buffer, data]);
+
+      while (buffer.length >= 4 && buffer.length >= buffer.readInt32LE(0) + 4) {
+        const size = buffer.readInt32LE(0);
+        const id = buffer.readInt32LE(4);
+        const type = buffer.readInt32LE(8);
+        const body = buffer.toString("utf8", 12, 12 + size - 10);
+        buffer = buffer.subarray(size + 4);
+
+        if (type === PacketType.AUTH) {
+          if ((this.failures.get(address) ?? 0) >= this.banAfterFailures) {
+            socket.destroy();
+            return;
+          }
+          authenticated = body === this.password;
+          if (!authenticated) {
+            this.failures.set(address, (this.failures.get(address) ?? 0) + 1);
+          }
+          const replyId = authenticated ? id : -1;
+          replies = replies.then(() =>
+            this.reply(socket, [
+              encodePacket(replyId, PacketType.RESPONSE_VALUE, Buffer.alloc(0)),
+              encodePacket(replyId, PacketType.AUTH_RESPONSE, Buffer.alloc(0)),
+            ]),
+          );
+        } else if (!authenticated) {
+          // SRCDS drops clients that send commands without authenticating
+          socket.destroy();
+          return;
+        } else {
+          if (body !== "") this.commands.push(body);
+          replies = replies.then(async () => {
+            const output = Buffer.from(await this.run(body), "utf8");
+            await this.reply(socket, this.split(id, output));
+          });
+        }
+      }
+    });
+  }
+
+  private async run(command: string): Promise<string> {
+    if (command === "") return "";
+
+    const [name, ...rest] = command.trim().split(/\s+/);
+    const args = rest.join(" ");
+    const handler = this.handlers.get(name.toLowerCase());
+    if (handler) {
+      try {
+        return await handler(args, this);
+      } catch (err) {
+        return `${(err as Error).message}\n`;
+      }
+    }
+
+    if (this.cvars.has(name)) {
+      if (args) {
+        this.cvars.set(name, args.replace(/^"(.*)"$/, "$1"));
+        return "";
+      }
+      return `${name} = ${this.cvars.get(name)}\n`;
+    }
+    return `Unknown command "${name}"\n`;
+  }
+
+  /** Encode `output` as one or more RESPONSE_VALUE packets sharing `id`. */
+  private split(id: number, output: Buffer): Buffer[] {
+    if (output.length === 0) return [encodePacket(id, PacketType.RESPONSE_VALUE, output)];
+    const packets: Buffer[] = [];
+    for (let offset = 0; offset < output.length; offset += this.maxBodyBytes) {
+      const chunk = output.subarray(offset, offset + this.maxBodyBytes);
+      packets.push(encodePacket(id, PacketType.RESPONSE_VALUE, chunk));
+    }
+    return packets;
+  }
+
+  private async reply(socket: net.Socket, packets: Buffer[]): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+    }
+    if (socket.destroyed) return;
+    for (const packet of packets) {
+      socket.write(packet);
+    }
+  }
+}
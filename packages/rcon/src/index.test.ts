@@ -1,6 +1,17 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import net from "node:net";
-import { RconClient, PacketType } from "./index.js";
+import {
+  RconClient,
+  PacketType,
+  RconAbortError,
+  RconAuthError,
+  RconBannedError,
+  RconConnectionClosedError,
+  RconConnectionRefusedError,
+  RconError,
+  RconTimeoutError,
+  LATENCY_BUCKETS_MS,
+} from "./index.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -11,9 +22,9 @@ function asAny(client: RconClient): Record<string, unknown> {
   return client as unknown as Record<string, unknown>;
 }
 
-/** Build a valid Source RCON response buffer. */
-function buildResponsePacket(id: number, type: number, body: string): Buffer {
-  const bodyBuf = Buffer.from(body, "ascii");
+/** Build a valid Source RCON response buffer (string bodies are UTF-8 encoded). */
+function buildResponsePacket(id: number, type: number, body: string | Buffer): Buffer {
+  const bodyBuf = typeof body === "string" ? Buffer.from(body, "utf8") : body;
   const size = 4 + 4 + bodyBuf.length + 1 + 1;
   const buf = Buffer.alloc(4 + size);
   buf.writeInt32LE(size, 0);
@@ -36,6 +47,7 @@ function createMockSocket() {
       return socket;
     }),
     write: vi.fn(),
+    setKeepAlive: vi.fn(),
     destroy: vi.fn(),
     destroyed: false,
     on: vi.fn((event: string, handler: (...args: unknown[]) => void) => {
@@ -106,6 +118,26 @@ describe("RconClient packet encoding", () => {
     expect(second.id).toBe(first.id + 1);
   });
 
+  it("encodePacket encodes the body as UTF-8 by default", () => {
+    const encode = (asAny(client) as { encodePacket: Function }).encodePacket.bind(client);
+    const { packet } = encode(PacketType.EXEC_COMMAND, "say Привет 你好 🎉") as {
+      packet: Buffer;
+    };
+    const size = packet.readInt32LE(0);
+
+    expect(packet.toString("utf8", 12, 12 + size - 10)).toBe("say Привет 你好 🎉");
+    // size counts bytes, not characters
+    expect(size).toBe(10 + Buffer.byteLength("say Привет 你好 🎉"));
+  });
+
+  it("encodePacket honours a configured legacy encoding", () => {
+    const legacy = new RconClient({ encoding: "latin1" });
+    const encode = (asAny(legacy) as { encodePacket: Function }).encodePacket.bind(legacy);
+    const { packet } = encode(PacketType.EXEC_COMMAND, "say café") as { packet: Buffer };
+
+    expect(packet.subarray(12, packet.length - 2)).toEqual(Buffer.from("say café", "latin1"));
+  });
+
   it("encodePacket handles empty body", () => {
     const encode = (asAny(client) as { encodePacket: Function }).encodePacket.bind(client);
     const { packet } = encode(PacketType.EXEC_COMMAND, "") as { packet: Buffer };
@@ -144,6 +176,15 @@ describe("RconClient packet decoding", () => {
     expect(decode(partial.subarray(0, 8))).toBeNull();
   });
 
+  it("decodePacket decodes UTF-8 player names", () => {
+    const decode = (asAny(client) as { decodePacket: Function }).decodePacket.bind(client);
+    const buf = buildResponsePacket(1, PacketType.RESPONSE_VALUE, '#  2 "Игрок★"');
+    const packet = decode(buf);
+
+    expect(packet.body).toBe('#  2 "Игрок★"');
+    expect(packet.rawBody).toEqual(Buffer.from('#  2 "Игрок★"', "utf8"));
+  });
+
   it("decodePacket handles empty body", () => {
     const decode = (asAny(client) as { decodePacket: Function }).decodePacket.bind(client);
     const buf = buildResponsePacket(1, PacketType.AUTH_RESPONSE, "");
@@ -209,7 +250,7 @@ describe("RconClient handlePacket", () => {
     client = new RconClient();
   });
 
-  it("resolves pending request with body for response packets", () => {
+  it("ignores the empty response value that precedes an auth response", () => {
     const pendingRequests = asAny(client).pendingRequests as Map<
       number,
       { resolve: Function; reject: Function }
@@ -219,11 +260,11 @@ describe("RconClient handlePacket", () => {
     pendingRequests.set(1, { resolve, reject });
 
     const handlePacket = (asAny(client) as { handlePacket: Function }).handlePacket.bind(client);
-    handlePacket({ id: 1, type: PacketType.RESPONSE_VALUE, body: "ok", size: 0, totalLength: 0 });
+    handlePacket({ id: 1, type: PacketType.RESPONSE_VALUE, body: "", size: 0, totalLength: 0 });
 
-    expect(resolve).toHaveBeenCalledWith("ok");
+    expect(resolve).not.toHaveBeenCalled();
     expect(reject).not.toHaveBeenCalled();
-    expect(pendingRequests.has(1)).toBe(false);
+    expect(pendingRequests.has(1)).toBe(true);
   });
 
   it("resolves auth response with true on success", () => {
@@ -261,6 +302,37 @@ describe("RconClient handlePacket", () => {
     expect(reject.mock.calls[0][0].message).toContain("Authentication failed");
   });
 
+  it("buffers command fragments until the sentinel reply arrives", () => {
+    const pendingRequests = asAny(client).pendingRequests as Map<
+      number,
+      { resolve: Function; reject: Function; fragments?: string[] }
+    >;
+    const sentinels = asAny(client).sentinels as Map<number, number>;
+    const resolve = vi.fn();
+    const reject = vi.fn();
+    pendingRequests.set(1, { resolve, reject, fragments: [] });
+    sentinels.set(2, 1);
+
+    const handlePacket = (asAny(client) as { handlePacket: Function }).handlePacket.bind(client);
+    const packet = (id: number, body: string) => ({
+      id,
+      type: PacketType.RESPONSE_VALUE,
+      body,
+      rawBody: Buffer.from(body),
+      size: 0,
+      totalLength: 0,
+    });
+    handlePacket(packet(1, "foo"));
+    handlePacket(packet(1, "bar"));
+    expect(resolve).not.toHaveBeenCalled();
+
+    handlePacket(packet(2, ""));
+
+    expect(resolve).toHaveBeenCalledWith("foobar");
+    expect(pendingRequests.has(1)).toBe(false);
+    expect(sentinels.has(2)).toBe(false);
+  });
+
   it("emits 'response' event for every packet", () => {
     const spy = vi.fn();
     client.on("response", spy);
@@ -281,6 +353,89 @@ describe("RconClient handlePacket", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// packets() — async iterator over received packets
+// ---------------------------------------------------------------------------
+
+describe("RconClient.packets", () => {
+  let client: RconClient;
+  let handlePacket: Function;
+
+  /** Feed a decoded packet through the client as if it came off the wire. */
+  function receive(id: number, body: string) {
+    const buf = buildResponsePacket(id, PacketType.RESPONSE_VALUE, body);
+    const decode = (asAny(client) as { decodePacket: Function }).decodePacket.bind(client);
+    handlePacket(decode(buf));
+  }
+
+  beforeEach(() => {
+    client = new RconClient();
+    handlePacket = (asAny(client) as { handlePacket: Function }).handlePacket.bind(client);
+  });
+
+  it("yields received packets in order, buffering while the consumer is busy", async () => {
+    const stream = client.packets();
+
+    receive(1, "first");
+    receive(2, "second");
+
+    const seen: string[] = [];
+    for await (const packet of stream) {
+      seen.push(packet.body);
+      if (packet.id === 2) receive(3, "third");
+      if (seen.length === 3) break;
+    }
+
+    expect(seen).toEqual(["first", "second", "third"]);
+  });
+
+  it("waits for packets that have not arrived yet", async () => {
+    const stream = client.packets();
+    const next = stream.next();
+
+    receive(7, "late");
+
+    const result = await next;
+    expect(result.done).toBe(false);
+    expect(result.value.id).toBe(7);
+    expect(result.value.rawBody).toEqual(Buffer.from("late"));
+    await stream.return!();
+  });
+
+  it("stops listening when the loop exits early", async () => {
+    const stream = client.packets();
+    receive(1, "x");
+    expect(client.listenerCount("response")).toBe(1);
+
+    for await (const _packet of stream) {
+      break;
+    }
+
+    expect(client.listenerCount("response")).toBe(0);
+  });
+
+  it("ends when the signal aborts", async () => {
+    const controller = new AbortController();
+    const stream = client.packets({ signal: controller.signal });
+    const next = stream.next();
+
+    controller.abort();
+
+    await expect(next).resolves.toEqual({ value: undefined, done: true });
+    expect(client.listenerCount("response")).toBe(0);
+  });
+
+  it("ends when the client disconnects", async () => {
+    const stream = client.packets();
+    const next = stream.next();
+
+    client.disconnect();
+
+    await expect(next).resolves.toEqual({ value: undefined, done: true });
+    await expect(stream.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // connect — full flow with mocked socket
 // ---------------------------------------------------------------------------
@@ -343,9 +498,41 @@ describe("RconClient.connect", () => {
       return socket as unknown as net.Socket;
     });
 
-    await expect(client.connect("127.0.0.1", 27015, "pw", 50)).rejects.toThrow(
-      "Connection timed out",
-    );
+    const result = client.connect("127.0.0.1", 27015, "pw", { timeoutMs: 50 });
+    await expect(result).rejects.toThrow("Connection timed out");
+    await expect(result).rejects.toBeInstanceOf(RconTimeoutError);
+
+    vi.restoreAllMocks();
+  });
+
+  it("rejects when the server never answers the auth packet", async () => {
+    const { socket } = createMockSocket();
+
+    vi.spyOn(net, "Socket").mockImplementation(function () {
+      return socket as unknown as net.Socket;
+    });
+
+    const result = client.connect("127.0.0.1", 27015, "pw", { authTimeoutMs: 50 });
+    await expect(result).rejects.toThrow("Authentication timed out");
+    await expect(result).rejects.toMatchObject({ timeoutMs: 50 });
+
+    vi.restoreAllMocks();
+  });
+
+  it("rejects with RconAbortError when the signal aborts", async () => {
+    const { socket } = createMockSocket();
+    socket.connect = vi.fn().mockReturnValue(socket);
+
+    vi.spyOn(net, "Socket").mockImplementation(function () {
+      return socket as unknown as net.Socket;
+    });
+
+    const controller = new AbortController();
+    const result = client.connect("127.0.0.1", 27015, "pw", { signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(RconAbortError);
+    expect(socket.destroy).toHaveBeenCalled();
 
     vi.restoreAllMocks();
   });
@@ -444,6 +631,947 @@ describe("RconClient.execute", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// execute — multi-packet responses
+// ---------------------------------------------------------------------------
+
+describe("RconClient.execute multi-packet responses", () => {
+  let client: RconClient;
+  let socket: ReturnType<typeof createMockSocket>["socket"];
+  /** Command packets written after authentication, in order. */
+  let written: { id: number; body: string }[];
+
+  beforeEach(async () => {
+    // Allow two commands in flight so their fragments can interleave
+    client = new RconClient({ concurrency: 2 });
+    written = [];
+    ({ socket } = createMockSocket());
+    vi.spyOn(net, "Socket").mockImplementation(function () {
+      return socket as unknown as net.Socket;
+    });
+
+    socket.write.mockImplementation((buf: Buffer) => {
+      const id = buf.readInt32LE(4);
+      const type = buf.readInt32LE(8);
+      if (type === PacketType.AUTH) {
+        const response = buildResponsePacket(id, PacketType.AUTH_RESPONSE, "");
+        process.nextTick(() => socket.emit("data", response));
+      } else {
+        written.push({ id, body: buf.toString("ascii", 12, buf.length - 2) });
+      }
+    });
+
+    await client.connect("127.0.0.1", 27015, "pw");
+  });
+
+  it("sends an empty sentinel command after every command", () => {
+    client.execute("cvarlist").catch(() => {});
+
+    expect(written).toHaveLength(2);
+    expect(written[0].body).toBe("cvarlist");
+    expect(written[1].body).toBe("");
+    expect(written[1].id).toBe(written[0].id + 1);
+
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("concatenates fragments split across packets and TCP chunks", async () => {
+    const promise = client.execute("cvarlist");
+    const [cmd, sentinel] = written;
+
+    const part1 = "a".repeat(4096);
+    const part2 = "b".repeat(4096);
+    const part3 = "tail";
+    const stream = Buffer.concat([
+      buildResponsePacket(cmd.id, PacketType.RESPONSE_VALUE, part1),
+      buildResponsePacket(cmd.id, PacketType.RESPONSE_VALUE, part2),
+      buildResponsePacket(cmd.id, PacketType.RESPONSE_VALUE, part3),
+      buildResponsePacket(sentinel.id, PacketType.RESPONSE_VALUE, ""),
+    ]);
+
+    // Deliver the stream in odd-sized chunks that straddle packet boundaries
+    for (let offset = 0; offset < stream.length; offset += 1000) {
+      socket.emit("data", stream.subarray(offset, offset + 1000));
+    }
+
+    await expect(promise).resolves.toBe(part1 + part2 + part3);
+
+    vi.restoreAllMocks();
+  });
+
+  it("routes interleaved fragments to the matching request", async () => {
+    const first = client.execute("maps *");
+    const second = client.execute("status");
+    const [cmd1, sentinel1, cmd2, sentinel2] = written;
+
+    socket.emit(
+      "data",
+      Buffer.concat([
+        buildResponsePacket(cmd1.id, PacketType.RESPONSE_VALUE, "de_dust2\n"),
+        buildResponsePacket(cmd2.id, PacketType.RESPONSE_VALUE, "hostname: A\n"),
+        buildResponsePacket(cmd1.id, PacketType.RESPONSE_VALUE, "de_mirage\n"),
+        buildResponsePacket(sentinel1.id, PacketType.RESPONSE_VALUE, ""),
+        buildResponsePacket(cmd2.id, PacketType.RESPONSE_VALUE, "map: de_nuke\n"),
+        buildResponsePacket(sentinel2.id, PacketType.RESPONSE_VALUE, ""),
+      ]),
+    );
+
+    await expect(first).resolves.toBe("de_dust2\nde_mirage\n");
+    await expect(second).resolves.toBe("hostname: A\nmap: de_nuke\n");
+
+    vi.restoreAllMocks();
+  });
+
+  it("keeps multibyte characters that straddle two fragments intact", async () => {
+    const promise = client.execute("status");
+    const [cmd, sentinel] = written;
+
+    const text = "name: Игрок 🎉 done";
+    const bytes = Buffer.from(text, "utf8");
+    // Split in the middle of the 4-byte emoji
+    const cut = bytes.indexOf(Buffer.from("🎉", "utf8")) + 2;
+
+    socket.emit(
+      "data",
+      Buffer.concat([
+        buildResponsePacket(cmd.id, PacketType.RESPONSE_VALUE, bytes.subarray(0, cut)),
+        buildResponsePacket(cmd.id, PacketType.RESPONSE_VALUE, bytes.subarray(cut)),
+        buildResponsePacket(sentinel.id, PacketType.RESPONSE_VALUE, ""),
+      ]),
+    );
+
+    await expect(promise).resolves.toBe(text);
+
+    vi.restoreAllMocks();
+  });
+
+  it("resolves with an empty string when the command produces no output", async () => {
+    const promise = client.execute("say hi");
+    const [, sentinel] = written;
+
+    socket.emit("data", buildResponsePacket(sentinel.id, PacketType.RESPONSE_VALUE, ""));
+
+    await expect(promise).resolves.toBe("");
+
+    vi.restoreAllMocks();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// command queue
+// ---------------------------------------------------------------------------
+
+describe("RconClient command queue", () => {
+  let socket: ReturnType<typeof createMockSocket>["socket"];
+  /** Command packets written after authentication, in order. */
+  let written: { id: number; body: string }[];
+
+  /** Connect a client whose socket records writes instead of replying. */
+  async function connectClient(options: ConstructorParameters<typeof RconClient>[0] = {}) {
+    const client = new RconClient(options);
+    await client.connect("127.0.0.1", 27015, "pw");
+    return client;
+  }
+
+  /** Answer the command written at `index` (and its sentinel) with `body`. */
+  function reply(index: number, body: string) {
+    const cmd = written[index];
+    socket.emit(
+      "data",
+      Buffer.concat([
+        buildResponsePacket(cmd.id, PacketType.RESPONSE_VALUE, body),
+        buildResponsePacket(cmd.id + 1, PacketType.RESPONSE_VALUE, ""),
+      ]),
+    );
+  }
+
+  /** Bodies of the real commands written so far, without sentinels. */
+  function commands() {
+    return written.filter((w) => w.body !== "").map((w) => w.body);
+  }
+
+  beforeEach(() => {
+    written = [];
+    ({ socket } = createMockSocket());
+    vi.spyOn(net, "Socket").mockImplementation(function () {
+      return socket as unknown as net.Socket;
+    });
+
+    socket.write.mockImplementation((buf: Buffer) => {
+      const id = buf.readInt32LE(4);
+      if (buf.readInt32LE(8) === PacketType.AUTH) {
+        const response = buildResponsePacket(id, PacketType.AUTH_RESPONSE, "");
+        process.nextTick(() => socket.emit("data", response));
+      } else {
+        written.push({ id, body: buf.toString("ascii", 12, buf.length - 2) });
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("sends one command at a time by default", async () => {
+    const client = await connectClient();
+
+    const status = client.execute("status");
+    const stats = client.execute("stats");
+
+    expect(commands()).toEqual(["status"]);
+    expect(client.inFlightCount).toBe(1);
+    expect(client.queueDepth).toBe(1);
+
+    reply(0, "status output");
+    await expect(status).resolves.toBe("status output");
+
+    expect(commands()).toEqual(["status", "stats"]);
+    reply(2, "stats output");
+    await expect(stats).resolves.toBe("stats output");
+    expect(client.queueDepth).toBe(0);
+    expect(client.inFlightCount).toBe(0);
+  });
+
+  it("honours a higher concurrency", async () => {
+    const client = await connectClient({ concurrency: 2 });
+
+    client.execute("a").catch(() => {});
+    client.execute("b").catch(() => {});
+    client.execute("c").catch(() => {});
+
+    expect(commands()).toEqual(["a", "b"]);
+    expect(client.queueDepth).toBe(1);
+    client.disconnect();
+  });
+
+  it("rejects commands once the queue is full", async () => {
+    const client = await connectClient({ maxQueueLength: 1 });
+
+    client.execute("in flight").catch(() => {});
+    client.execute("queued").catch(() => {});
+
+    await expect(client.execute("overflow")).rejects.toThrow("Command queue is full");
+    client.disconnect();
+  });
+
+  it("limits the number of commands sent per second", async () => {
+    const client = await connectClient({ concurrency: 10, rateLimit: 2 });
+    vi.useFakeTimers();
+
+    client.execute("a").catch(() => {});
+    client.execute("b").catch(() => {});
+    client.execute("c").catch(() => {});
+
+    expect(commands()).toEqual(["a", "b"]);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(commands()).toEqual(["a", "b"]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(commands()).toEqual(["a", "b", "c"]);
+    client.disconnect();
+  });
+
+  it("rejects queued commands when the connection closes", async () => {
+    const client = await connectClient();
+
+    const first = client.execute("a");
+    const second = client.execute("b");
+    socket.emit("close");
+
+    await expect(first).rejects.toThrow("Connection closed");
+    await expect(second).rejects.toThrow("Connection closed");
+    expect(client.queueDepth).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// execute — timeouts and cancellation
+// ---------------------------------------------------------------------------
+
+describe("RconClient.execute options", () => {
+  let client: RconClient;
+  let socket: ReturnType<typeof createMockSocket>["socket"];
+  /** Bodies of the command packets written after authentication. */
+  let written: string[];
+
+  beforeEach(async () => {
+    client = new RconClient();
+    written = [];
+    ({ socket } = createMockSocket());
+    vi.spyOn(net, "Socket").mockImplementation(function () {
+      return socket as unknown as net.Socket;
+    });
+
+    // Authenticate, then swallow every command so requests stay in flight
+    socket.write.mockImplementation((buf: Buffer) => {
+      const id = buf.readInt32LE(4);
+      if (buf.readInt32LE(8) === PacketType.AUTH) {
+        const response = buildResponsePacket(id, PacketType.AUTH_RESPONSE, "");
+        process.nextTick(() => socket.emit("data", response));
+      } else {
+        written.push(buf.toString("ascii", 12, buf.length - 2));
+      }
+    });
+
+    await client.connect("127.0.0.1", 27015, "pw");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("rejects with RconTimeoutError after timeoutMs", async () => {
+    vi.useFakeTimers();
+    const result = client.execute("maps *", { timeoutMs: 30_000 });
+    const assertion = expect(result).rejects.toBeInstanceOf(RconTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(client.inFlightCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await assertion;
+    await expect(result).rejects.toMatchObject({ timeoutMs: 30_000 });
+  });
+
+  it("defaults to a 10 second timeout", async () => {
+    vi.useFakeTimers();
+    const result = client.execute("status");
+    const assertion = expect(result).rejects.toThrow("Command timed out");
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    await assertion;
+  });
+
+  it("rejects immediately when the signal is already aborted", async () => {
+    const result = client.execute("status", { signal: AbortSignal.abort() });
+
+    await expect(result).rejects.toBeInstanceOf(RconAbortError);
+    expect(written).toEqual([]);
+  });
+
+  it("cancels an in-flight command and frees its slot", async () => {
+    const controller = new AbortController();
+    const first = client.execute("status", { signal: controller.signal });
+    const second = client.execute("stats");
+    expect(written).toEqual(["status", ""]);
+
+    controller.abort();
+
+    await expect(first).rejects.toBeInstanceOf(RconAbortError);
+    expect(written).toEqual(["status", "", "stats", ""]);
+    second.catch(() => {});
+    client.disconnect();
+  });
+
+  it("removes a queued command without sending it", async () => {
+    const controller = new AbortController();
+    client.execute("status").catch(() => {});
+    const queued = client.execute("stats", { signal: controller.signal });
+    expect(client.queueDepth).toBe(1);
+
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(RconAbortError);
+    expect(client.queueDepth).toBe(0);
+    expect(written).toEqual(["status", ""]);
+    client.disconnect();
+  });
+
+  it("rejects in-flight commands on disconnect", async () => {
+    const result = client.execute("status");
+
+    client.disconnect();
+
+    await expect(result).rejects.toThrow("Connection closed");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// typed errors
+// ---------------------------------------------------------------------------
+
+describe("RconClient errors", () => {
+  let client: RconClient;
+  let socket: ReturnType<typeof createMockSocket>["socket"];
+
+  beforeEach(() => {
+    client = new RconClient();
+    client.on("error", () => {});
+    ({ socket } = createMockSocket());
+    vi.spyOn(net, "Socket").mockImplementation(function () {
+      return socket as unknown as net.Socket;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("all share the RconError base class and a stable code", () => {
+    const err = new RconTimeoutError("Command timed out", 100);
+    expect(err).toBeInstanceOf(RconError);
+    expect(err).toBeInstanceOf(Error);
+    expect(err.code).toBe("TIMEOUT");
+    expect(err.name).toBe("RconTimeoutError");
+  });
+
+  it("rejects a wrong password with RconAuthError", async () => {
+    socket.write.mockImplementation(() => {
+      const response = buildResponsePacket(-1, PacketType.AUTH_RESPONSE, "");
+      process.nextTick(() => socket.emit("data", response));
+    });
+
+    const result = client.connect("127.0.0.1", 27015, "wrong");
+    await expect(result).rejects.toBeInstanceOf(RconAuthError);
+    await expect(result).rejects.toMatchObject({ code: "AUTH_FAILED" });
+  });
+
+  it("wraps ECONNREFUSED in RconConnectionRefusedError", async () => {
+    const refused = Object.assign(new Error("connect ECONNREFUSED 127.0.0.1:27015"), {
+      code: "ECONNREFUSED",
+    });
+    socket.connect = vi.fn(() => {
+      process.nextTick(() => socket.emit("error", refused));
+      return socket;
+    });
+
+    const result = client.connect("127.0.0.1", 27015, "pw");
+    await expect(result).rejects.toBeInstanceOf(RconConnectionRefusedError);
+    await expect(result).rejects.toMatchObject({ code: "CONNECTION_REFUSED", cause: refused });
+  });
+
+  it("reports a close before the auth reply as a ban", async () => {
+    socket.write.mockImplementation(() => {
+      process.nextTick(() => socket.emit("close"));
+    });
+
+    const result = client.connect("127.0.0.1", 27015, "pw");
+    await expect(result).rejects.toBeInstanceOf(RconBannedError);
+    await expect(result).rejects.toMatchObject({ code: "BANNED" });
+  });
+
+  it("rejects commands without a connection with NOT_CONNECTED", async () => {
+    await expect(client.execute("status")).rejects.toMatchObject({ code: "NOT_CONNECTED" });
+  });
+
+  it("rejects in-flight commands with RconConnectionClosedError when the server closes", async () => {
+    socket.write.mockImplementation((buf: Buffer) => {
+      if (buf.readInt32LE(8) !== PacketType.AUTH) return;
+      const response = buildResponsePacket(buf.readInt32LE(4), PacketType.AUTH_RESPONSE, "");
+      process.nextTick(() => socket.emit("data", response));
+    });
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    const result = client.execute("status");
+    socket.emit("close");
+
+    await expect(result).rejects.toBeInstanceOf(RconConnectionClosedError);
+    await expect(result).rejects.toMatchObject({ code: "CONNECTION_CLOSED" });
+  });
+
+  it("rejects with QUEUE_FULL once maxQueueLength is reached", async () => {
+    client = new RconClient({ maxQueueLength: 0 });
+    socket.write.mockImplementation((buf: Buffer) => {
+      const response = buildResponsePacket(buf.readInt32LE(4), PacketType.AUTH_RESPONSE, "");
+      process.nextTick(() => socket.emit("data", response));
+    });
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    await expect(client.execute("status")).rejects.toMatchObject({ code: "QUEUE_FULL" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// automatic reconnect
+// ---------------------------------------------------------------------------
+
+describe("RconClient reconnect", () => {
+  type MockSocket = ReturnType<typeof createMockSocket>["socket"];
+  let sockets: MockSocket[];
+  /** Decides how each newly created socket behaves, by creation index. */
+  let behaviour: (index: number, socket: MockSocket) => void;
+
+  /** Make the socket answer auth with success and every command with `reply`. */
+  function autoReply(socket: MockSocket) {
+    socket.write.mockImplementation((buf: Buffer) => {
+      const id = buf.readInt32LE(4);
+      const type = buf.readInt32LE(8) === PacketType.AUTH ? PacketType.AUTH_RESPONSE : 0;
+      const response = buildResponsePacket(id, type, "reply");
+      process.nextTick(() => socket.emit("data", response));
+    });
+  }
+
+  /** Make the socket fail to connect with ECONNREFUSED. */
+  function refuse(socket: MockSocket) {
+    socket.connect = vi.fn(() => {
+      process.nextTick(() => {
+        socket.emit("error", new Error("ECONNREFUSED"));
+        socket.emit("close");
+      });
+      return socket;
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sockets = [];
+    behaviour = (_index, socket) => autoReply(socket);
+    vi.spyOn(net, "Socket").mockImplementation(function () {
+      const { socket } = createMockSocket();
+      behaviour(sockets.length, socket);
+      sockets.push(socket);
+      return socket as unknown as net.Socket;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("does not reconnect unless enabled", async () => {
+    const client = new RconClient();
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    sockets[0].emit("close");
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(sockets).toHaveLength(1);
+    expect(client.isReconnecting).toBe(false);
+  });
+
+  it("re-authenticates after the server drops the connection", async () => {
+    const client = new RconClient({ reconnect: { initialDelayMs: 100, jitter: 0 } });
+    const reconnecting = vi.fn();
+    const reconnected = vi.fn();
+    client.on("reconnecting", reconnecting);
+    client.on("reconnected", reconnected);
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    sockets[0].emit("close");
+    expect(reconnecting).toHaveBeenCalledWith({ attempt: 1, delayMs: 100 });
+    expect(client.isReconnecting).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(sockets).toHaveLength(2);
+    expect(reconnected).toHaveBeenCalledOnce();
+    expect(client.isConnected).toBe(true);
+    expect(client.isReconnecting).toBe(false);
+
+    // The password is re-sent on the new socket
+    const authPacket = sockets[1].write.mock.calls[0][0] as Buffer;
+    expect(authPacket.readInt32LE(8)).toBe(PacketType.AUTH);
+    expect(authPacket.toString("ascii", 12, authPacket.length - 2)).toBe("pw");
+  });
+
+  it("backs off exponentially between failed attempts", async () => {
+    behaviour = (index, socket) => (index === 0 ? autoReply(socket) : refuse(socket));
+    const client = new RconClient({
+      reconnect: { initialDelayMs: 100, factor: 2, maxDelayMs: 300, jitter: 0 },
+    });
+    client.on("error", () => {});
+    const delays: number[] = [];
+    client.on("reconnecting", ({ delayMs }) => delays.push(delayMs));
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    sockets[0].emit("close");
+    await vi.advanceTimersByTimeAsync(100 + 200 + 300);
+
+    expect(delays).toEqual([100, 200, 300, 300]);
+    client.disconnect();
+  });
+
+  it("applies jitter below the nominal delay", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const client = new RconClient({ reconnect: { initialDelayMs: 1000, jitter: 0.5 } });
+    const reconnecting = vi.fn();
+    client.on("reconnecting", reconnecting);
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    sockets[0].emit("close");
+
+    expect(reconnecting).toHaveBeenCalledWith({ attempt: 1, delayMs: 750 });
+    client.disconnect();
+  });
+
+  it("gives up after maxAttempts and emits reconnect_failed", async () => {
+    behaviour = (index, socket) => (index === 0 ? autoReply(socket) : refuse(socket));
+    const client = new RconClient({
+      reconnect: { maxAttempts: 2, initialDelayMs: 10, jitter: 0 },
+    });
+    client.on("error", () => {});
+    const failed = vi.fn();
+    client.on("reconnect_failed", failed);
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    sockets[0].emit("close");
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(sockets).toHaveLength(3); // initial + 2 attempts
+    expect(failed).toHaveBeenCalledOnce();
+    expect(failed.mock.calls[0][0].message).toBe("ECONNREFUSED");
+    expect(client.isReconnecting).toBe(false);
+  });
+
+  it("stops immediately when the password is rejected", async () => {
+    behaviour = (index, socket) => {
+      if (index === 0) return autoReply(socket);
+      socket.write.mockImplementation(() => {
+        const response = buildResponsePacket(-1, PacketType.AUTH_RESPONSE, "");
+        process.nextTick(() => socket.emit("data", response));
+      });
+    };
+    const client = new RconClient({ reconnect: { initialDelayMs: 10, jitter: 0 } });
+    const failed = vi.fn();
+    client.on("reconnect_failed", failed);
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    sockets[0].emit("close");
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(sockets).toHaveLength(2);
+    expect(failed.mock.calls[0][0].message).toContain("Authentication failed");
+  });
+
+  it("does not reconnect after an explicit disconnect", async () => {
+    const client = new RconClient({ reconnect: { initialDelayMs: 10 } });
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    client.disconnect();
+    sockets[0].emit("close");
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(sockets).toHaveLength(1);
+  });
+
+  it("rejects commands issued while offline by default", async () => {
+    const client = new RconClient({ reconnect: { initialDelayMs: 100 } });
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    sockets[0].emit("close");
+
+    await expect(client.execute("status")).rejects.toThrow("Not authenticated");
+    client.disconnect();
+  });
+
+  it("queues commands issued while offline when queueWhileOffline is set", async () => {
+    const client = new RconClient({
+      reconnect: { initialDelayMs: 100, jitter: 0, queueWhileOffline: true },
+    });
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    sockets[0].emit("close");
+    const result = client.execute("status");
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(result).resolves.toBe("reply");
+  });
+
+  it("rejects queued commands when reconnecting is abandoned", async () => {
+    behaviour = (index, socket) => (index === 0 ? autoReply(socket) : refuse(socket));
+    const client = new RconClient({
+      reconnect: { maxAttempts: 1, initialDelayMs: 10, jitter: 0, queueWhileOffline: true },
+    });
+    client.on("error", () => {});
+    client.on("reconnect_failed", () => {});
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    sockets[0].emit("close");
+    const result = client.execute("status");
+    const assertion = expect(result).rejects.toThrow("ECONNREFUSED");
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await assertion;
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+describe("RconClient stats", () => {
+  type MockSocket = ReturnType<typeof createMockSocket>["socket"];
+  let socket: MockSocket;
+  /** Delay before the server answers a command; null leaves it unanswered. */
+  let replyDelayMs: number | null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    replyDelayMs = 0;
+    vi.spyOn(net, "Socket").mockImplementation(function () {
+      socket = createMockSocket().socket;
+      socket.write.mockImplementation((buf: Buffer) => {
+        const id = buf.readInt32LE(4);
+        const isAuth = buf.readInt32LE(8) === PacketType.AUTH;
+        const response = buildResponsePacket(id, isAuth ? PacketType.AUTH_RESPONSE : 0, "ok");
+        if (isAuth) {
+          process.nextTick(() => socket.emit("data", response));
+        } else if (replyDelayMs !== null) {
+          setTimeout(() => socket.emit("data", response), replyDelayMs);
+        }
+      });
+      return socket as unknown as net.Socket;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("starts empty", () => {
+    const stats = new RconClient().stats();
+
+    expect(stats).toMatchObject({ commands: 0, timeouts: 0, errors: 0, connectedAt: null });
+    expect(stats.latency.meanMs).toBeNull();
+    expect(stats.latency.histogram).toHaveLength(LATENCY_BUCKETS_MS.length);
+  });
+
+  it("records latency and traffic of answered commands", async () => {
+    const client = new RconClient();
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    replyDelayMs = 40;
+    const first = client.execute("status");
+    await vi.advanceTimersByTimeAsync(40);
+    await first;
+    replyDelayMs = 200;
+    const second = client.execute("stats");
+    await vi.advanceTimersByTimeAsync(200);
+    await second;
+
+    const stats = client.stats();
+    expect(stats.commands).toBe(2);
+    expect(stats.latency).toMatchObject({ count: 2, minMs: 40, maxMs: 200, meanMs: 120 });
+    expect(stats.latency.p50Ms).toBe(50);
+    expect(stats.latency.p95Ms).toBe(200);
+    expect(stats.latency.histogram[LATENCY_BUCKETS_MS.indexOf(50)]).toBe(1);
+    expect(stats.latency.histogram[LATENCY_BUCKETS_MS.indexOf(250)]).toBe(1);
+    // Auth packet plus two commands with their sentinels
+    const written = socket.write.mock.calls.reduce((n, [buf]) => n + (buf as Buffer).length, 0);
+    expect(stats.bytesSent).toBe(written);
+    expect(stats.bytesReceived).toBeGreaterThan(0);
+    client.disconnect();
+  });
+
+  it("counts timeouts and emits metrics", async () => {
+    const client = new RconClient();
+    const metrics = vi.fn();
+    client.on("metrics", metrics);
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    replyDelayMs = null;
+    const result = client.execute("status", { timeoutMs: 100 }).catch((err) => err);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await result).toBeInstanceOf(RconTimeoutError);
+    expect(client.stats()).toMatchObject({ commands: 0, timeouts: 1, errors: 0 });
+    expect(metrics).toHaveBeenCalledWith(expect.objectContaining({ timeouts: 1 }));
+    client.disconnect();
+  });
+
+  it("counts failed commands as errors but not aborted ones", async () => {
+    const client = new RconClient({ concurrency: 2 });
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    replyDelayMs = null;
+    const controller = new AbortController();
+    const aborted = client.execute("status", { signal: controller.signal }).catch(() => {});
+    const dropped = client.execute("stats").catch(() => {});
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await aborted;
+    socket.emit("close");
+    await dropped;
+
+    expect(client.stats()).toMatchObject({ timeouts: 0, errors: 1 });
+  });
+
+  it("reports uptime of the current session", async () => {
+    const client = new RconClient();
+    await client.connect("127.0.0.1", 27015, "pw");
+    const connectedAt = client.stats().connectedAt;
+
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(connectedAt).toBe(Date.now() - 5_000);
+    expect(client.stats().uptimeMs).toBe(5_000);
+
+    client.disconnect();
+    expect(client.stats()).toMatchObject({ connectedAt: null, uptimeMs: 0 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Keepalive / heartbeat
+// ---------------------------------------------------------------------------
+
+describe("RconClient keepalive", () => {
+  type MockSocket = ReturnType<typeof createMockSocket>["socket"];
+  let sockets: MockSocket[];
+  /** When false, the server stops answering commands (half-open connection). */
+  let responsive: boolean;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sockets = [];
+    responsive = true;
+    vi.spyOn(net, "Socket").mockImplementation(function () {
+      const { socket } = createMockSocket();
+      socket.write.mockImplementation((buf: Buffer) => {
+        const id = buf.readInt32LE(4);
+        const isAuth = buf.readInt32LE(8) === PacketType.AUTH;
+        if (!isAuth && !responsive) return;
+        const response = buildResponsePacket(id, isAuth ? PacketType.AUTH_RESPONSE : 0, "");
+        process.nextTick(() => socket.emit("data", response));
+      });
+      sockets.push(socket);
+      return socket as unknown as net.Socket;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /** Commands written to `socket` after authentication, sentinels included. */
+  function commandsSent(socket: MockSocket): number {
+    return socket.write.mock.calls.length - 1;
+  }
+
+  it("enables TCP keepalive on connect", async () => {
+    const client = new RconClient({ keepAliveMs: 5_000 });
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    expect(sockets[0].setKeepAlive).toHaveBeenCalledWith(true, 5_000);
+    client.disconnect();
+  });
+
+  it("leaves TCP keepalive off when keepAliveMs is 0", async () => {
+    const client = new RconClient({ keepAliveMs: 0 });
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    expect(sockets[0].setKeepAlive).not.toHaveBeenCalled();
+    client.disconnect();
+  });
+
+  it("sends no heartbeat unless enabled", async () => {
+    const client = new RconClient();
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(commandsSent(sockets[0])).toBe(0);
+    client.disconnect();
+  });
+
+  it("sends an empty command after a period of silence", async () => {
+    const client = new RconClient({ heartbeat: { intervalMs: 1_000 } });
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    // Heartbeat command plus its sentinel
+    expect(commandsSent(sockets[0])).toBe(2);
+    const heartbeat = sockets[0].write.mock.calls[1][0] as Buffer;
+    expect(heartbeat.readInt32LE(8)).toBe(PacketType.EXEC_COMMAND);
+    expect(heartbeat.length).toBe(14);
+    client.disconnect();
+  });
+
+  it("skips the heartbeat while the server is talking", async () => {
+    const client = new RconClient({ heartbeat: { intervalMs: 1_000 } });
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    await vi.advanceTimersByTimeAsync(600);
+    await client.execute("status");
+    await vi.advanceTimersByTimeAsync(400);
+
+    // Only the "status" command and its sentinel
+    expect(commandsSent(sockets[0])).toBe(2);
+    client.disconnect();
+  });
+
+  it("leaves heartbeats out of the command metrics", async () => {
+    const client = new RconClient({ heartbeat: { intervalMs: 1_000, timeoutMs: 500 } });
+    const metrics = vi.fn();
+    client.on("metrics", metrics);
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(commandsSent(sockets[0])).toBe(2);
+
+    responsive = false;
+    await vi.advanceTimersByTimeAsync(1_500);
+
+    expect(client.stats()).toMatchObject({ commands: 0, timeouts: 0, errors: 0 });
+    expect(client.stats().latency.count).toBe(0);
+    expect(metrics).not.toHaveBeenCalled();
+    client.disconnect();
+  });
+
+  it("emits stale and closes the socket when the heartbeat goes unanswered", async () => {
+    const client = new RconClient({ heartbeat: { intervalMs: 1_000, timeoutMs: 500 } });
+    const stale = vi.fn();
+    const disconnected = vi.fn();
+    client.on("stale", stale);
+    client.on("disconnect", disconnected);
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    responsive = false;
+    await vi.advanceTimersByTimeAsync(1_499);
+    expect(stale).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(stale).toHaveBeenCalledOnce();
+    expect(sockets[0].destroy).toHaveBeenCalled();
+
+    sockets[0].emit("close");
+    expect(disconnected).toHaveBeenCalledOnce();
+    expect(client.isConnected).toBe(false);
+  });
+
+  it("reconnects after a stale connection when reconnect is enabled", async () => {
+    const client = new RconClient({
+      heartbeat: { intervalMs: 1_000, timeoutMs: 500 },
+      reconnect: { initialDelayMs: 100, jitter: 0 },
+    });
+    const reconnected = vi.fn();
+    client.on("reconnected", reconnected);
+    await client.connect("127.0.0.1", 27015, "pw");
+
+    responsive = false;
+    await vi.advanceTimersByTimeAsync(1_500);
+    sockets[0].emit("close");
+
+    responsive = true;
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(sockets).toHaveLength(2);
+    expect(reconnected).toHaveBeenCalledOnce();
+    expect(client.isConnected).toBe(true);
+    client.disconnect();
+  });
+
+  it("stops the heartbeat on disconnect", async () => {
+    const client = new RconClient({ heartbeat: { intervalMs: 1_000 } });
+    await client.connect("127.0.0.1", 27015, "pw");
+    client.disconnect();
+
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(commandsSent(sockets[0])).toBe(0);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // disconnect
 // ---------------------------------------------------------------------------
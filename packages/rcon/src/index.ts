@@ -1,5 +1,21 @@
 import net from "node:net";
 import { EventEmitter } from "node:events";
+import {
+  RconAbortError,
+  RconAuthError,
+  RconBannedError,
+  RconConnectionClosedError,
+  RconConnectionRefusedError,
+  RconNotConnectedError,
+  RconQueueFullError,
+  RconTimeoutError,
+} from "./errors.js";
+import { RconMetrics } from "./metrics.js";
+import type { RconStats } from "./metrics.js";
+
+export * from "./errors.js";
+export { LATENCY_BUCKETS_MS } from "./metrics.js";
+export type { LatencyStats, RconStats } from "./metrics.js";
 
 /** Source RCON packet types. */
 export const PacketType = {
@@ -13,13 +29,159 @@ export interface RconPacket {
   size: number;
   id: number;
   type: number;
+  /** Body decoded with the client's encoding. */
   body: string;
+  /** Undecoded body bytes, without the null terminators. */
+  rawBody: Buffer;
   totalLength: number;
 }
 
+/** Backoff policy used when automatic reconnection is enabled. */
+export interface ReconnectOptions {
+  /** Give up after this many consecutive failed attempts (default: 10). */
+  maxAttempts?: number;
+  /** Delay before the first attempt in milliseconds (default: 1000). */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between attempts (default: 30000). */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after every attempt (default: 2). */
+  factor?: number;
+  /** Fraction of the delay randomised away to spread out clients, 0–1 (default: 0.2). */
+  jitter?: number;
+  /**
+   * Hold commands issued while reconnecting and send them once the session
+   * is re-established, instead of rejecting them (default: false).
+   */
+  queueWhileOffline?: boolean;
+}
+
+/** Application-level liveness check, see `RconClientOptions.heartbeat`. */
+export interface HeartbeatOptions {
+  /** Send an empty command after this much silence from the server (default: 30000). */
+  intervalMs?: number;
+  /** Time allowed for the heartbeat reply before the connection is declared stale (default: 10000). */
+  timeoutMs?: number;
+}
+
+export interface RconClientOptions {
+  /** Reconnect and re-authenticate automatically when the server drops the connection. */
+  reconnect?: boolean | ReconnectOptions;
+  /** Maximum number of commands awaiting a response at once (default: 1). */
+  concurrency?: number;
+  /** Maximum number of commands sent per second (default: unlimited). */
+  rateLimit?: number;
+  /** Maximum number of commands waiting to be sent; beyond this `execute()` rejects (default: 100). */
+  maxQueueLength?: number;
+  /**
+   * Text encoding of packet bodies (default: "utf8").  Legacy Source servers
+   * that predate UTF-8 consoles may need "latin1".
+   */
+  encoding?: BufferEncoding;
+  /**
+   * Idle time before the OS starts sending TCP keepalive probes, in
+   * milliseconds; 0 disables keepalive (default: 15000).
+   */
+  keepAliveMs?: number;
+  /**
+   * Periodically send an empty command while the server is silent and tear
+   * the connection down, emitting `stale`, if it goes unanswered.  Catches
+   * half-open connections much sooner than TCP keepalive (default: off).
+   */
+  heartbeat?: boolean | HeartbeatOptions;
+}
+
+/** Options for `RconClient.packets()`. */
+export interface PacketStreamOptions {
+  /** Ends the iteration when aborted. */
+  signal?: AbortSignal;
+}
+
+/** Events emitted by `RconClient`, mapped to their listener arguments. */
+export interface RconClientEvents {
+  /** Every decoded packet received from the server, before request routing. */
+  response: [packet: RconPacket];
+  /** The connection was lost or closed. */
+  disconnect: [];
+  /** A socket-level error occurred. */
+  error: [error: Error];
+  /** An automatic reconnect attempt has been scheduled. */
+  reconnecting: [event: ReconnectingEvent];
+  /** The session was re-established after an automatic reconnect. */
+  reconnected: [];
+  /** Automatic reconnection gave up. */
+  reconnect_failed: [error: Error];
+  /** A heartbeat went unanswered; the socket is being closed. */
+  stale: [];
+  /** Updated statistics, emitted whenever a command completes or fails. */
+  metrics: [stats: RconStats];
+}
+
+/** Per-call options for `RconClient.connect()`. */
+export interface ConnectOptions {
+  /** Time allowed to establish the TCP connection (default: 5000). */
+  timeoutMs?: number;
+  /** Time allowed for the server to answer the auth packet (default: 5000). */
+  authTimeoutMs?: number;
+  /** Cancels the connection attempt when aborted. */
+  signal?: AbortSignal;
+}
+
+/** Per-call options for `RconClient.execute()`. */
+export interface ExecuteOptions {
+  /** Time allowed for the full response once the command is sent (default: 10000). */
+  timeoutMs?: number;
+  /** Cancels the command, whether still queued or in flight, when aborted. */
+  signal?: AbortSignal;
+}
+
+/** Payload of the `reconnecting` event. */
+export interface ReconnectingEvent {
+  attempt: number;
+  delayMs: number;
+}
+
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+  maxAttempts: 10,
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  factor: 2,
+  jitter: 0.2,
+  queueWhileOffline: false,
+};
+
+const DEFAULT_HEARTBEAT: Required<HeartbeatOptions> = {
+  intervalMs: 30_000,
+  timeoutMs: 10_000,
+};
+
+const CONNECT_TIMEOUT_MS = 5_000;
+const AUTH_TIMEOUT_MS = 5_000;
+const COMMAND_TIMEOUT_MS = 10_000;
+
+interface Credentials {
+  host: string;
+  port: number;
+  password: string;
+  timeoutMs: number;
+  authTimeoutMs: number;
+}
+
+interface QueuedCommand {
+  command: string;
+  timeoutMs: number;
+  resolve: (value: string) => void;
+  reject: (error: Error) => void;
+  /** Request id assigned once the command has been written to the socket. */
+  requestId?: number;
+  /** A heartbeat, left out of the command metrics. */
+  probe: boolean;
+}
+
 interface PendingRequest {
   resolve: (value: string | boolean) => void;
   reject: (error: Error) => void;
+  /** Raw body fragments collected so far (command requests only). */
+  fragments?: Buffer[];
 }
 
 /**
@@ -32,20 +194,93 @@ interface PendingRequest {
  *   4 bytes – Packet size  (Int32LE, excludes this field itself)
  *   4 bytes – Request ID   (Int32LE)
  *   4 bytes – Packet type  (Int32LE)
- *   N bytes – Body         (null-terminated ASCII)
+ *   N bytes – Body         (null-terminated, UTF-8 by default)
  *   1 byte  – Empty string terminator (0x00)
+ *
+ * Responses larger than a single packet (~4 KB) are split across several
+ * RESPONSE_VALUE packets sharing the request id.  The protocol has no
+ * "last fragment" marker, so every command is followed by an empty
+ * sentinel command: the server answers requests in order, and the reply to
+ * the sentinel signals that all fragments of the real command have arrived.
+ * Fragments are joined as bytes before decoding, so a multibyte character
+ * split across two packets survives intact.
+ *
+ * With `reconnect` enabled, an unexpected close triggers reconnection with
+ * exponential backoff using the credentials of the last successful
+ * `connect()`.  Progress is reported through the `reconnecting`,
+ * `reconnected` and `reconnect_failed` events.
+ *
+ * Commands go through an internal FIFO: CS2 drops or mis-orders replies when
+ * a client floods the RCON port, so by default only one command is in flight
+ * at a time.  `concurrency`, `rateLimit` and `maxQueueLength` tune this.
+ *
+ * Failures are reported as `RconError` subclasses with a stable `code`.
+ *
+ * A server that vanishes without closing the connection (hard reboot, NAT
+ * timeout) is detected by TCP keepalive and, with `heartbeat` enabled, by an
+ * empty command sent whenever the server has been silent for a while.  An
+ * unanswered heartbeat emits `stale` and closes the socket, which then goes
+ * through the normal disconnect and reconnect path.
  */
-export class RconClient extends EventEmitter {
+export class RconClient extends EventEmitter<RconClientEvents> {
   private socket: net.Socket | null = null;
   private authenticated = false;
   private requestId = 0;
   private pendingRequests = new Map<number, PendingRequest>();
+  /** Maps a sentinel request id to the id of the command it terminates. */
+  private sentinels = new Map<number, number>();
   private responseBuffer = Buffer.alloc(0);
+  private readonly reconnectPolicy: Required<ReconnectOptions> | null;
+  private credentials: Credentials | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly concurrency: number;
+  private readonly rateLimit: number;
+  private readonly maxQueueLength: number;
+  private readonly encoding: BufferEncoding;
+  private commandQueue: QueuedCommand[] = [];
+  private inFlight = 0;
+  /** Send times (ms) of the commands issued within the last second. */
+  private sendTimes: number[] = [];
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+  /** End callbacks of the open `packets()` iterators. */
+  private packetStreams = new Set<() => void>();
+  private readonly keepAliveMs: number;
+  private readonly heartbeat: Required<HeartbeatOptions> | null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatPending = false;
+  /** Time (ms) the last data arrived from the server. */
+  private lastReceivedAt = 0;
+  private readonly metrics = new RconMetrics();
+
+  constructor(options: RconClientOptions = {}) {
+    super();
+    const {
+      reconnect,
+      concurrency = 1,
+      rateLimit = Infinity,
+      maxQueueLength = 100,
+      encoding = "utf8",
+      keepAliveMs = 15_000,
+      heartbeat,
+    } = options;
+    this.reconnectPolicy = reconnect
+      ? { ...DEFAULT_RECONNECT, ...(reconnect === true ? {} : reconnect) }
+      : null;
+    this.concurrency = Math.max(1, concurrency);
+    this.rateLimit = rateLimit;
+    this.maxQueueLength = maxQueueLength;
+    this.encoding = encoding;
+    this.keepAliveMs = keepAliveMs;
+    this.heartbeat = heartbeat
+      ? { ...DEFAULT_HEARTBEAT, ...(heartbeat === true ? {} : heartbeat) }
+      : null;
+  }
 
   /** Encode a packet following the Source RCON protocol. */
   private encodePacket(type: number, body: string): { id: number; packet: Buffer } {
     const id = ++this.requestId;
-    const bodyBuffer = Buffer.from(body, "ascii");
+    const bodyBuffer = Buffer.from(body, this.encoding);
     // size = 4 (id) + 4 (type) + body length + 1 (body null) + 1 (terminator null)
     const size = 4 + 4 + bodyBuffer.length + 1 + 1;
 
@@ -71,13 +306,16 @@ export class RconClient extends EventEmitter {
 
     const id = buffer.readInt32LE(4);
     const type = buffer.readInt32LE(8);
-    const body = buffer.toString("ascii", 12, 12 + size - 10);
+    const rawBody = buffer.subarray(12, 12 + size - 10);
+    const body = rawBody.toString(this.encoding);
 
-    return { size, id, type, body, totalLength };
+    return { size, id, type, body, rawBody, totalLength };
   }
 
   /** Handle incoming TCP data (may contain multiple or partial packets). */
   private handleData(data: Buffer): void {
+    this.lastReceivedAt = Date.now();
+    this.metrics.bytesReceived += data.length;
     this.responseBuffer = Buffer.concat([this.responseBuffer, data]);
 
     let packet: RconPacket | null;
@@ -97,7 +335,20 @@ export class RconClient extends EventEmitter {
       if (!entry.done) {
         const [key, pending] = entry.value;
         this.pendingRequests.delete(key);
-        pending.reject(new Error("Authentication failed: wrong RCON password"));
+        pending.reject(new RconAuthError());
+      }
+      this.emit("response", packet);
+      return;
+    }
+
+    // Sentinel reply: every fragment of the preceding command has arrived.
+    const commandId = this.sentinels.get(packet.id);
+    if (commandId !== undefined) {
+      this.sentinels.delete(packet.id);
+      const pending = this.pendingRequests.get(commandId);
+      if (pending) {
+        this.pendingRequests.delete(commandId);
+        pending.resolve(Buffer.concat(pending.fragments ?? []).toString(this.encoding));
       }
       this.emit("response", packet);
       return;
@@ -105,27 +356,29 @@ export class RconClient extends EventEmitter {
 
     const pending = this.pendingRequests.get(packet.id);
     if (pending) {
-      this.pendingRequests.delete(packet.id);
-
       if (packet.type === PacketType.AUTH_RESPONSE) {
+        this.pendingRequests.delete(packet.id);
         this.authenticated = true;
         pending.resolve(true);
-      } else {
-        pending.resolve(packet.body);
+      } else if (pending.fragments) {
+        pending.fragments.push(packet.rawBody);
       }
+      // Otherwise this is the empty RESPONSE_VALUE that Source servers send
+      // ahead of the AUTH_RESPONSE; the auth reply itself follows.
     }
 
     this.emit("response", packet);
   }
 
   /** Send the authentication packet. */
-  private authenticate(password: string): Promise<boolean> {
+  private authenticate(password: string, timeoutMs: number): Promise<boolean> {
     return new Promise((resolve, reject) => {
       const { id, packet } = this.encodePacket(PacketType.AUTH, password);
 
       const timer = setTimeout(() => {
-        reject(new Error(`Authentication timed out`));
-      }, 5_000);
+        this.pendingRequests.delete(id);
+        reject(new RconTimeoutError("Authentication timed out", timeoutMs));
+      }, timeoutMs);
 
       this.pendingRequests.set(id, {
         resolve: (val) => {
@@ -138,91 +391,502 @@ export class RconClient extends EventEmitter {
         },
       });
 
-      this.socket!.write(packet);
+      this.write(packet);
     });
   }
 
+  private write(packet: Buffer): void {
+    this.metrics.bytesSent += packet.length;
+    this.socket!.write(packet);
+  }
+
+  /** Delay before the given reconnect attempt (1-based), with jitter applied. */
+  private reconnectDelay(attempt: number): number {
+    const { initialDelayMs, maxDelayMs, factor, jitter } = this.reconnectPolicy!;
+    const base = Math.min(maxDelayMs, initialDelayMs * factor ** (attempt - 1));
+    return Math.round(base * (1 - jitter * Math.random()));
+  }
+
+  /** Schedule the next reconnect attempt, or give up once the budget is spent. */
+  private scheduleReconnect(lastError: Error): void {
+    const attempt = ++this.reconnectAttempt;
+    if (attempt > this.reconnectPolicy!.maxAttempts) {
+      this.abandonReconnect(lastError);
+      return;
+    }
+
+    const delayMs = this.reconnectDelay(attempt);
+    this.emit("reconnecting", { attempt, delayMs } satisfies ReconnectingEvent);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      const { host, port, password, timeoutMs, authTimeoutMs } = this.credentials!;
+      this.open(host, port, password, { timeoutMs, authTimeoutMs }).then(
+        () => {
+          this.reconnectAttempt = 0;
+          this.emit("reconnected");
+          this.drainQueue();
+        },
+        (err: Error) => {
+          // disconnect() was called while the attempt was in flight
+          if (!this.credentials) return;
+          // Retrying a rejected password only risks getting the address banned
+          if (err instanceof RconAuthError || err instanceof RconBannedError) {
+            this.abandonReconnect(err);
+          } else {
+            this.scheduleReconnect(err);
+          }
+        },
+      );
+    }, delayMs);
+  }
+
+  /** Stop reconnecting and fail every command still waiting for a connection. */
+  private abandonReconnect(err: Error): void {
+    this.reconnectAttempt = 0;
+    this.credentials = null;
+    this.rejectQueue(err);
+    this.emit("reconnect_failed", err);
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+  }
+
+  /**
+   * Send an empty command whenever the server has been silent for
+   * `heartbeat.intervalMs`.  If it goes unanswered the connection is
+   * considered dead: `stale` is emitted and the socket destroyed, so its
+   * close handler reports the disconnect and schedules a reconnect.
+   */
+  private startHeartbeat(socket: net.Socket): void {
+    this.stopHeartbeat();
+    this.lastReceivedAt = Date.now();
+    if (!this.heartbeat) return;
+
+    const { intervalMs, timeoutMs } = this.heartbeat;
+    this.heartbeatTimer = setInterval(() => {
+      if (this.heartbeatPending || Date.now() - this.lastReceivedAt < intervalMs) return;
+
+      this.heartbeatPending = true;
+      this.enqueue("", { timeoutMs }, true).then(
+        () => {
+          this.heartbeatPending = false;
+        },
+        (err: Error) => {
+          this.heartbeatPending = false;
+          if (err instanceof RconTimeoutError && this.socket === socket) {
+            this.emit("stale");
+            socket.destroy();
+          }
+        },
+      );
+    }, intervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Send queued commands while the concurrency and rate limits allow.
+   * When the rate limit is reached, a timer resumes draining once the
+   * oldest send falls out of the one-second window.
+   */
+  private drainQueue(): void {
+    if (this.drainTimer) return;
+
+    while (this.authenticated && this.commandQueue.length > 0 && this.inFlight < this.concurrency) {
+      const now = Date.now();
+      this.sendTimes = this.sendTimes.filter((t) => now - t < 1_000);
+      if (this.sendTimes.length >= this.rateLimit) {
+        this.drainTimer = setTimeout(
+          () => {
+            this.drainTimer = null;
+            this.drainQueue();
+          },
+          this.sendTimes[0] + 1_000 - now,
+        );
+        return;
+      }
+
+      const entry = this.commandQueue.shift()!;
+      this.sendTimes.push(now);
+      this.inFlight++;
+      this.sendCommand(entry)
+        .then(entry.resolve, entry.reject)
+        .finally(() => {
+          this.inFlight--;
+          this.drainQueue();
+        });
+    }
+  }
+
+  private rejectQueue(err: Error): void {
+    const queued = this.commandQueue;
+    this.commandQueue = [];
+    for (const { reject } of queued) {
+      reject(err);
+    }
+  }
+
+  /** Cancel a command through its abort signal, wherever it currently is. */
+  private abortCommand(entry: QueuedCommand): void {
+    const error = new RconAbortError("Command aborted");
+
+    const index = this.commandQueue.indexOf(entry);
+    if (index !== -1) {
+      this.commandQueue.splice(index, 1);
+      entry.reject(error);
+      return;
+    }
+
+    const pending = entry.requestId !== undefined && this.pendingRequests.get(entry.requestId);
+    if (pending) {
+      this.dropRequest(entry.requestId!);
+      pending.reject(error);
+    }
+  }
+
+  /** Forget a command request together with the sentinel that terminates it. */
+  private dropRequest(id: number): void {
+    this.pendingRequests.delete(id);
+    for (const [sentinelId, commandId] of this.sentinels) {
+      if (commandId === id) {
+        this.sentinels.delete(sentinelId);
+        break;
+      }
+    }
+  }
+
   /** Connect and authenticate to the RCON server. */
-  connect(host: string, port: number, password: string, timeout = 5_000): Promise<void> {
+  async connect(
+    host: string,
+    port: number,
+    password: string,
+    options: ConnectOptions = {},
+  ): Promise<void> {
+    const { timeoutMs = CONNECT_TIMEOUT_MS, authTimeoutMs = AUTH_TIMEOUT_MS, signal } = options;
+    this.cancelReconnect();
+    this.credentials = null;
+    await this.open(host, port, password, { timeoutMs, authTimeoutMs, signal });
+    this.credentials = { host, port, password, timeoutMs, authTimeoutMs };
+  }
+
+  /** Open a fresh socket and authenticate, replacing any existing one. */
+  private open(
+    host: string,
+    port: number,
+    password: string,
+    options: Required<Omit<ConnectOptions, "signal">> & Pick<ConnectOptions, "signal">,
+  ): Promise<void> {
+    const { timeoutMs, authTimeoutMs, signal } = options;
+
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(new RconAbortError("Connection aborted"));
+      }
+
       if (this.socket) {
-        this.disconnect();
+        this.teardown();
       }
 
-      this.socket = new net.Socket();
+      const socket = new net.Socket();
+      this.socket = socket;
       this.authenticated = false;
       this.requestId = 0;
       this.pendingRequests.clear();
+      this.sentinels.clear();
       this.responseBuffer = Buffer.alloc(0);
 
+      const onAbort = () => {
+        clearTimeout(connectTimer);
+        this.teardown();
+        reject(new RconAbortError("Connection aborted"));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const settle = (err?: Error) => {
+        clearTimeout(connectTimer);
+        signal?.removeEventListener("abort", onAbort);
+        if (err) reject(err);
+        else resolve();
+      };
+
       const connectTimer = setTimeout(() => {
-        this.disconnect();
-        reject(new Error("Connection timed out"));
-      }, timeout);
+        this.teardown();
+        settle(new RconTimeoutError("Connection timed out", timeoutMs));
+      }, timeoutMs);
 
-      this.socket.connect(port, host, () => {
+      socket.connect(port, host, () => {
         clearTimeout(connectTimer);
-        this.authenticate(password)
-          .then(() => resolve())
-          .catch((err) => reject(err));
+        if (this.keepAliveMs > 0) {
+          socket.setKeepAlive(true, this.keepAliveMs);
+        }
+        this.authenticate(password, authTimeoutMs).then(
+          () => {
+            this.metrics.connectedAt = Date.now();
+            this.startHeartbeat(socket);
+            settle();
+          },
+          (err: Error) => {
+            // A rejected or unanswered login must not leave the socket open
+            if (this.socket === socket) this.teardown();
+            settle(err);
+          },
+        );
       });
 
-      this.socket.on("data", (data) => this.handleData(data));
+      socket.on("data", (data) => this.handleData(data));
 
-      this.socket.on("error", (err) => {
-        clearTimeout(connectTimer);
+      socket.on("error", (err: NodeJS.ErrnoException) => {
         this.emit("error", err);
-        reject(err);
+        settle(
+          err.code === "ECONNREFUSED"
+            ? new RconConnectionRefusedError(err.message, { cause: err })
+            : err,
+        );
       });
 
-      this.socket.on("close", () => {
+      socket.on("close", () => {
+        if (this.socket === socket) {
+          this.stopHeartbeat();
+          this.metrics.connectedAt = null;
+        }
+        const reconnecting = this.reconnectAttempt > 0;
+        // A close while the auth packet is unanswered is how Source servers
+        // turn away addresses banned for too many bad passwords.
+        const closedDuringAuth = !this.authenticated && this.pendingRequests.size > 0;
         this.authenticated = false;
-        this.emit("disconnect");
+        if (!reconnecting) {
+          this.emit("disconnect");
+        }
         for (const [, pending] of this.pendingRequests) {
-          pending.reject(new Error("Connection closed"));
+          pending.reject(
+            closedDuringAuth ? new RconBannedError() : new RconConnectionClosedError(),
+          );
         }
         this.pendingRequests.clear();
+        this.sentinels.clear();
+
+        // Only an unexpected close of the live socket triggers a reconnect:
+        // teardown() detaches the socket first, and failed attempts are
+        // retried by scheduleReconnect() itself.
+        if (this.socket === socket && this.credentials && this.reconnectPolicy && !reconnecting) {
+          this.scheduleReconnect(new RconConnectionClosedError());
+        }
+        if (!(this.reconnectAttempt > 0 && this.reconnectPolicy?.queueWhileOffline)) {
+          this.rejectQueue(new RconConnectionClosedError());
+        }
       });
     });
   }
 
-  /** Execute an RCON command and return the server response. */
-  execute(command: string): Promise<string> {
+  /**
+   * Execute an RCON command and return the server response.
+   *
+   * The command is queued and sent once the concurrency and rate limits
+   * allow.  Multi-packet responses are reassembled: the promise resolves
+   * with the concatenated body once the trailing sentinel command has been
+   * answered.
+   *
+   * While a reconnect is in progress the command is held back until the
+   * session is restored if `queueWhileOffline` is enabled.
+   *
+   * Rejects with `RconTimeoutError` when no complete response arrives within
+   * `timeoutMs` of sending, and with `RconAbortError` when `signal` aborts.
+   */
+  execute(command: string, options: ExecuteOptions = {}): Promise<string> {
+    return this.enqueue(command, options, false);
+  }
+
+  /** Queue a command; `probe` marks heartbeats, which the metrics skip. */
+  private enqueue(command: string, options: ExecuteOptions, probe: boolean): Promise<string> {
+    const { timeoutMs = COMMAND_TIMEOUT_MS, signal } = options;
+
     return new Promise((resolve, reject) => {
-      if (!this.authenticated) {
-        return reject(new Error("Not authenticated"));
+      if (signal?.aborted) {
+        return reject(new RconAbortError("Command aborted"));
+      }
+      const holdForReconnect = this.reconnectAttempt > 0 && this.reconnectPolicy?.queueWhileOffline;
+      if (!this.authenticated && !holdForReconnect) {
+        return reject(new RconNotConnectedError());
       }
+      if (this.commandQueue.length >= this.maxQueueLength) {
+        return reject(new RconQueueFullError());
+      }
+
+      const onAbort = () => this.abortCommand(entry);
+      const entry: QueuedCommand = {
+        command,
+        timeoutMs,
+        probe,
+        resolve: (value) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        reject: (err) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(err);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.commandQueue.push(entry);
+      this.drainQueue();
+    });
+  }
 
-      const { id, packet } = this.encodePacket(PacketType.EXEC_COMMAND, command);
+  /** Write a command plus its sentinel and wait for the reassembled reply. */
+  private sendCommand(entry: QueuedCommand): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.authenticated) {
+        return reject(new RconNotConnectedError());
+      }
 
+      const { id, packet } = this.encodePacket(PacketType.EXEC_COMMAND, entry.command);
+      const sentinel = this.encodePacket(PacketType.EXEC_COMMAND, "");
+      entry.requestId = id;
+
+      const sentAt = Date.now();
+      /** Apply `update` to the metrics and report them, unless this is a heartbeat. */
+      const record = (update: () => void) => {
+        if (entry.probe) return;
+        update();
+        this.emit("metrics", this.stats());
+      };
       const timer = setTimeout(() => {
-        this.pendingRequests.delete(id);
-        reject(new Error("Command timed out"));
-      }, 10_000);
+        this.dropRequest(id);
+        record(() => this.metrics.timeouts++);
+        reject(new RconTimeoutError("Command timed out", entry.timeoutMs));
+      }, entry.timeoutMs);
 
       this.pendingRequests.set(id, {
         resolve: (val) => {
           clearTimeout(timer);
+          record(() => this.metrics.recordLatency(Date.now() - sentAt));
           resolve(val as string);
         },
         reject: (err) => {
           clearTimeout(timer);
+          record(() => {
+            if (!(err instanceof RconAbortError)) {
+              this.metrics.errors++;
+            }
+          });
           reject(err);
         },
+        fragments: [],
       });
+      this.sentinels.set(sentinel.id, id);
 
-      this.socket!.write(packet);
+      this.write(packet);
+      this.write(sentinel.packet);
     });
   }
 
-  /** Gracefully disconnect from the server. */
+  /**
+   * Iterate over every packet received from the server:
+   *
+   * ```ts
+   * for await (const packet of client.packets({ signal })) { ... }
+   * ```
+   *
+   * Packets that arrive while the loop body is busy are buffered.  Iteration
+   * continues across automatic reconnects and ends when `disconnect()` is
+   * called, `signal` aborts, or the loop exits early.
+   */
+  packets(options: PacketStreamOptions = {}): AsyncIterableIterator<RconPacket> {
+    const { signal } = options;
+    const buffered: RconPacket[] = [];
+    let waiting: ((result: IteratorResult<RconPacket>) => void) | null = null;
+    let done = false;
+
+    const onPacket = (packet: RconPacket) => {
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ value: packet, done: false });
+      } else {
+        buffered.push(packet);
+      }
+    };
+
+    const end = () => {
+      if (done) return;
+      done = true;
+      buffered.length = 0;
+      this.off("response", onPacket);
+      this.packetStreams.delete(end);
+      signal?.removeEventListener("abort", end);
+      waiting?.({ value: undefined, done: true });
+      waiting = null;
+    };
+
+    this.on("response", onPacket);
+    this.packetStreams.add(end);
+    signal?.addEventListener("abort", end, { once: true });
+    if (signal?.aborted) end();
+
+    return {
+      next: () => {
+        if (buffered.length > 0) {
+          return Promise.resolve({ value: buffered.shift()!, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: () => {
+        end();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /** Gracefully disconnect from the server and stop any pending reconnect. */
   disconnect(): void {
+    for (const end of [...this.packetStreams]) {
+      end();
+    }
+    this.cancelReconnect();
+    this.credentials = null;
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+    this.rejectQueue(new RconNotConnectedError());
+    this.teardown();
+  }
+
+  /** Destroy the socket, fail in-flight requests and reset per-connection state. */
+  private teardown(): void {
+    this.stopHeartbeat();
+    this.metrics.connectedAt = null;
     if (this.socket) {
       this.socket.destroy();
       this.socket = null;
     }
     this.authenticated = false;
+    const pending = [...this.pendingRequests.values()];
     this.pendingRequests.clear();
+    for (const request of pending) {
+      request.reject(new RconConnectionClosedError());
+    }
+    this.sentinels.clear();
     this.responseBuffer = Buffer.alloc(0);
   }
 
@@ -230,4 +894,28 @@ export class RconClient extends EventEmitter {
   get isConnected(): boolean {
     return this.socket !== null && !this.socket.destroyed && this.authenticated;
   }
+
+  /** Number of commands waiting in the queue, not yet sent to the server. */
+  get queueDepth(): number {
+    return this.commandQueue.length;
+  }
+
+  /** Number of commands sent and still awaiting a response. */
+  get inFlightCount(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Command counts, latency, traffic and uptime since the client was
+   * created, across reconnects.  Latency covers answered commands only;
+   * heartbeat probes are not counted.
+   */
+  stats(): RconStats {
+    return this.metrics.snapshot(Date.now());
+  }
+
+  /** Whether an automatic reconnect is currently in progress. */
+  get isReconnecting(): boolean {
+    return this.reconnectAttempt > 0;
+  }
 }
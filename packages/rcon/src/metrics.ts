@@ -0,0 +1,88 @@
+/** Upper bounds (ms) of the latency histogram buckets; the last one catches everything. */
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1_000, 2_500, 5_000, Infinity];
+
+/** Round-trip latency of answered commands, measured from send to last fragment. */
+export interface LatencyStats {
+  count: number;
+  minMs: number | null;
+  maxMs: number | null;
+  meanMs: number | null;
+  /** Median, approximated by the upper bound of its histogram bucket. */
+  p50Ms: number | null;
+  /** 95th percentile, approximated by the upper bound of its histogram bucket. */
+  p95Ms: number | null;
+  /** Number of samples per bucket of `LATENCY_BUCKETS_MS`. */
+  histogram: number[];
+}
+
+/** Snapshot returned by `RconClient.stats()` and carried by its `metrics` event. */
+export interface RconStats {
+  /** Commands answered by the server. */
+  commands: number;
+  /** Commands that got no complete response in time. */
+  timeouts: number;
+  /** Commands that failed for any other reason than a timeout or an abort. */
+  errors: number;
+  bytesSent: number;
+  bytesReceived: number;
+  latency: LatencyStats;
+  /** When the current session was authenticated (ms since epoch), or null while offline. */
+  connectedAt: number | null;
+  /** Time since `connectedAt`, 0 while offline. */
+  uptimeMs: number;
+}
+
+/** Counters behind `RconClient.stats()`.  Cumulative over the client's lifetime. */
+export class RconMetrics {
+  commands = 0;
+  timeouts = 0;
+  errors = 0;
+  bytesSent = 0;
+  bytesReceived = 0;
+  connectedAt: number | null = null;
+  private histogram = LATENCY_BUCKETS_MS.map(() => 0);
+  private latencyTotal = 0;
+  private minMs = Infinity;
+  private maxMs = 0;
+
+  recordLatency(ms: number): void {
+    this.commands++;
+    this.latencyTotal += ms;
+    this.minMs = Math.min(this.minMs, ms);
+    this.maxMs = Math.max(this.maxMs, ms);
+    this.histogram[LATENCY_BUCKETS_MS.findIndex((bound) => ms <= bound)]++;
+  }
+
+  /** Upper bound of the bucket holding the `q` quantile, capped at the largest sample. */
+  private quantile(q: number): number {
+    const rank = Math.ceil(q * this.commands);
+    let seen = 0;
+    for (let i = 0; i < this.histogram.length; i++) {
+      seen += this.histogram[i];
+      if (seen >= rank) return Math.min(LATENCY_BUCKETS_MS[i], this.maxMs);
+    }
+    return this.maxMs;
+  }
+
+  snapshot(now: number): RconStats {
+    const answered = this.commands > 0;
+    return {
+      commands: this.commands,
+      timeouts: this.timeouts,
+      errors: this.errors,
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived,
+      latency: {
+        count: this.commands,
+        minMs: answered ? this.minMs : null,
+        maxMs: answered ? this.maxMs : null,
+        meanMs: answered ? this.latencyTotal / this.commands : null,
+        p50Ms: answered ? this.quantile(0.5) : null,
+        p95Ms: answered ? this.quantile(0.95) : null,
+        histogram: [...this.histogram],
+      },
+      connectedAt: this.connectedAt,
+      uptimeMs: this.connectedAt === null ? 0 : now - this.connectedAt,
+    };
+  }
+}
@@ -1,9 +1,15 @@
+import { useState } from "react";
 import { useRcon } from "./useRcon.ts";
 import { Sidebar } from "./components/Sidebar.tsx";
 import { Console } from "./components/Console.tsx";
 import { InactivityWarning } from "./components/InactivityWarning.tsx";
 import { ServerStatus } from "./components/ServerStatus.tsx";
 import { PlayerTable } from "./components/PlayerTable.tsx";
+import { RulesPanel } from "./components/RulesPanel.tsx";
+import { EconomyPanel } from "./components/EconomyPanel.tsx";
+import { Scoreboard } from "./components/Scoreboard.tsx";
+import { ServerBrowser } from "./components/ServerBrowser.tsx";
+import { useServerBrowser } from "./useServerBrowser.ts";
 
 export function App() {
   const {
@@ -20,6 +26,9 @@ export function App() {
     autoRefreshInterval,
     showTimestamps,
     logStreaming,
+    serverRules,
+    economy,
+    match,
     clearConsole,
     connectToServer,
     disconnect,
@@ -27,10 +36,17 @@ export function App() {
     removeFromHistory,
     resetInactivity,
     requestStatus,
+    requestRules,
     updateAutoRefreshInterval,
     toggleTimestamps,
     toggleLogStreaming,
   } = useRcon();
+  const browser = useServerBrowser(serverHistory);
+  const [pickedServer, setPickedServer] = useState<{
+    host: string;
+    port: string;
+    at: number;
+  } | null>(null);
 
   return (
     <>
@@ -62,10 +78,12 @@ export function App() {
           onDisconnect={disconnect}
           onCommand={sendCommand}
           onRemoveHistory={removeFromHistory}
+          pickedServer={pickedServer}
         />
         <div className="content-area">
           {connected && (
             <>
+              {match.phase && <Scoreboard match={match} />}
               <ServerStatus
                 status={serverStatus}
                 fpsHistory={fpsHistory}
@@ -80,8 +98,17 @@ export function App() {
                 connected={connected}
                 onCommand={sendCommand}
               />
+              <EconomyPanel economy={economy} logStreaming={logStreaming} />
             </>
           )}
+          <ServerBrowser
+            servers={serverHistory}
+            results={browser.results}
+            refreshing={browser.refreshing}
+            onRefresh={browser.refresh}
+            onPick={(host, port) => setPickedServer({ host, port, at: Date.now() })}
+          />
+          <RulesPanel connected={connected} rules={serverRules} onRequest={requestRules} />
           <Console
             lines={lines}
             connected={connected}
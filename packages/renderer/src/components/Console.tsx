@@ -104,7 +104,10 @@ export function Console({
 
       <div className="console-output" ref={outputRef}>
         {lines.map((line) => (
-          <div key={line.id} className={`console-line ${line.type}`}>
+          <div
+            key={line.id}
+            className={`console-line ${line.type}${line.category ? ` log-${line.category}` : ""}`}
+          >
             {showTimestamps && (
               <span className="console-timestamp">{formatTimestamp(line.timestamp)}</span>
             )}
@@ -0,0 +1,90 @@
+import { classifyBuy, teamBank } from "../economy.ts";
+import type { EconomyState, EconomyTeam, TeamEconomy } from "../economy.ts";
+
+interface EconomyPanelProps {
+  economy: EconomyState;
+  logStreaming: boolean;
+}
+
+const TEAMS: { team: EconomyTeam; label: string }[] = [
+  { team: "CT", label: "CT" },
+  { team: "TERRORIST", label: "T" },
+];
+
+const BUY_LABELS = { eco: "Eco", force: "Force", full: "Full buy" };
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString("en-US")}`;
+}
+
+function TeamCell({ economy }: { economy: TeamEconomy }) {
+  const buy = classifyBuy(economy.equipmentValue);
+  return (
+    <td className="economy-team" title={economy.items.join(", ") || "Nothing bought"}>
+      <span className={`buy-badge buy-${buy}`}>{BUY_LABELS[buy]}</span>
+      <span className="economy-value">{formatMoney(economy.equipmentValue)}</span>
+      <span className="economy-spend">spent {formatMoney(economy.spend)}</span>
+    </td>
+  );
+}
+
+/**
+ * Per-round team buys, built from the purchase and money lines in the game
+ * log.  Spend and bank need `mp_logmoney 1` on the server; equipment value
+ * and the buy classification only need purchases.
+ */
+export function EconomyPanel({ economy, logStreaming }: EconomyPanelProps) {
+  const bank = teamBank(economy);
+  const hasBank = Object.keys(economy.balances).length > 0;
+
+  return (
+    <div className="economy-panel">
+      <div className="economy-panel-header">
+        <div className="economy-panel-title">
+          <span className="economy-panel-icon">&#36;</span>
+          Economy
+        </div>
+        {hasBank && (
+          <div className="economy-bank">
+            {TEAMS.map(({ team, label }) => (
+              <span key={team} className={`economy-bank-team team-${team.toLowerCase()}`}>
+                {label} bank {formatMoney(bank[team])}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {economy.rounds.length === 0 ? (
+        <div className="economy-panel-empty">
+          {logStreaming ? "Waiting for the next buy..." : "Enable log streaming to track team buys"}
+        </div>
+      ) : (
+        <div className="economy-panel-scroll">
+          <table className="economy-table">
+            <thead>
+              <tr>
+                <th>Round</th>
+                {TEAMS.map(({ team, label }) => (
+                  <th key={team} className={`team-${team.toLowerCase()}`}>
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {[...economy.rounds].reverse().map((round) => (
+                <tr key={round.round}>
+                  <td className="economy-round">{round.round}</td>
+                  {TEAMS.map(({ team }) => (
+                    <TeamCell key={team} economy={round.teams[team]} />
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,14 @@ const BAN_DURATION_OPTIONS = [
   { value: "0", label: "Perm" },
 ];
 
+/** Format seconds as m:ss, or h:mm:ss past the hour. */
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
 interface PlayerTableProps {
   players: PlayerInfo[];
   maxPlayers: number;
@@ -90,6 +98,7 @@ export function PlayerTable({ players, maxPlayers, connected, onCommand }: Playe
                 <tr>
                   <th className="col-id">#</th>
                   <th className="col-name">Name</th>
+                  <th className="col-score">Score</th>
                   <th className="col-steam">SteamID</th>
                   <th className="col-ping">Ping</th>
                   <th className="col-time">Time</th>
@@ -104,11 +113,14 @@ export function PlayerTable({ players, maxPlayers, connected, onCommand }: Playe
                     <td className="col-name" title={p.name}>
                       {p.name}
                     </td>
+                    <td className="col-score">{p.score ?? "—"}</td>
                     <td className="col-steam" title={p.steamId}>
                       <span className="steam-id">{p.steamId}</span>
                     </td>
                     <td className={`col-ping ${getPingClass(p.ping)}`}>{p.ping}ms</td>
-                    <td className="col-time">{p.connected}</td>
+                    <td className="col-time">
+                      {p.duration !== undefined ? formatDuration(p.duration) : p.connected}
+                    </td>
                     <td className="col-state">
                       <span className={`state-badge${p.state === "active" ? " state-active" : ""}`}>
                         {p.state}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import type { ServerRulesState } from "../useRcon.ts";
+
+interface RulesPanelProps {
+  connected: boolean;
+  rules: ServerRulesState | null;
+  onRequest: (host?: string, port?: string) => void;
+}
+
+/**
+ * Read-only list of the cvars a server replicates publicly (A2S_RULES).
+ * Works without RCON: when not connected, any host and port can be queried.
+ */
+export function RulesPanel({ connected, rules, onRequest }: RulesPanelProps) {
+  const [filter, setFilter] = useState("");
+  const [host, setHost] = useState("");
+  const [port, setPort] = useState("27015");
+
+  const query = filter.trim().toLowerCase();
+  const visible = (rules?.rules ?? []).filter(
+    (r) => !query || r.name.toLowerCase().includes(query) || r.value.toLowerCase().includes(query),
+  );
+
+  function handleQuery() {
+    if (connected) {
+      onRequest();
+    } else {
+      onRequest(host.trim(), port.trim());
+    }
+  }
+
+  return (
+    <div className="rules-panel">
+      <div className="rules-panel-header">
+        <div className="rules-panel-title">
+          <span className="rules-panel-icon">&#9776;</span>
+          Public Rules
+          {rules && (
+            <span className="rules-panel-source">
+              {rules.host}:{rules.port} ({rules.rules.length})
+            </span>
+          )}
+        </div>
+        <div className="rules-panel-controls">
+          {!connected && (
+            <>
+              <input
+                type="text"
+                className="rules-host"
+                placeholder="Host"
+                value={host}
+                onChange={(e) => setHost(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleQuery();
+                }}
+              />
+              <input
+                type="text"
+                className="rules-port"
+                placeholder="Port"
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+              />
+            </>
+          )}
+          {rules && (
+            <input
+              type="text"
+              className="rules-filter"
+              placeholder="Filter..."
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+            />
+          )}
+          <button
+            className="btn btn-refresh"
+            onClick={handleQuery}
+            title={connected ? "Query the connected server" : "Query this server"}
+          >
+            &#8635;
+          </button>
+        </div>
+      </div>
+
+      {!rules ? (
+        <div className="rules-panel-empty">
+          {connected
+            ? "Refresh to load the server's public cvars"
+            : "Enter a host to read its public cvars without RCON"}
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="rules-panel-empty">No matching rules</div>
+      ) : (
+        <div className="rules-panel-scroll">
+          <table className="rules-table">
+            <tbody>
+              {visible.map((r) => (
+                <tr key={r.name}>
+                  <td className="rule-name">{r.name}</td>
+                  <td className="rule-value" title={r.value}>
+                    {r.value}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
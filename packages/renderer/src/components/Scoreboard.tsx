@@ -0,0 +1,32 @@
+import type { MatchState } from "../match.ts";
+
+interface ScoreboardProps {
+  match: MatchState;
+}
+
+const PHASE_LABELS = { warmup: "Warmup", live: "Live", over: "Final" };
+
+/** Live score header, driven by the match events in the game log. */
+export function Scoreboard({ match }: ScoreboardProps) {
+  const round = match.phase === "live" ? match.roundsPlayed + 1 : null;
+
+  return (
+    <div className="scoreboard">
+      <div className="scoreboard-side team-ct">
+        <span className="scoreboard-team">CT</span>
+        <span className="scoreboard-score">{match.score.ct}</span>
+      </div>
+      <div className="scoreboard-middle">
+        <span className={`scoreboard-phase phase-${match.phase}`}>
+          {match.phase ? PHASE_LABELS[match.phase] : "—"}
+        </span>
+        <span className="scoreboard-map">{match.map ?? "Unknown map"}</span>
+        {round !== null && <span className="scoreboard-round">Round {round}</span>}
+      </div>
+      <div className="scoreboard-side team-terrorist">
+        <span className="scoreboard-score">{match.score.t}</span>
+        <span className="scoreboard-team">T</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { sortBrowserRows } from "../useServerBrowser.ts";
+import type { BrowserSortKey, SavedServer, ServerProbeResult } from "../useServerBrowser.ts";
+
+interface ServerBrowserProps {
+  servers: SavedServer[];
+  results: Map<string, ServerProbeResult>;
+  refreshing: boolean;
+  onRefresh: () => void;
+  onPick: (host: string, port: string) => void;
+}
+
+const COLUMNS: { key: BrowserSortKey; label: string; className: string }[] = [
+  { key: "status", label: "", className: "col-status" },
+  { key: "hostname", label: "Server", className: "col-name" },
+  { key: "map", label: "Map", className: "col-map" },
+  { key: "players", label: "Players", className: "col-players" },
+  { key: "ping", label: "Ping", className: "col-ping" },
+];
+
+/**
+ * Every saved server with its live A2S state, refreshed in the background.
+ * Clicking a row loads its address into the connection form; connecting
+ * still takes the password and the Connect button.
+ */
+export function ServerBrowser({
+  servers,
+  results,
+  refreshing,
+  onRefresh,
+  onPick,
+}: ServerBrowserProps) {
+  const [sortKey, setSortKey] = useState<BrowserSortKey>("status");
+  const [descending, setDescending] = useState(false);
+
+  if (servers.length === 0) return null;
+
+  function toggleSort(key: BrowserSortKey) {
+    if (key === sortKey) {
+      setDescending((d) => !d);
+    } else {
+      setSortKey(key);
+      setDescending(false);
+    }
+  }
+
+  const rows = sortBrowserRows(
+    servers.map((server) => ({ server, result: results.get(server.key) })),
+    sortKey,
+    descending,
+  );
+  const onlineCount = rows.filter((r) => r.result?.online).length;
+
+  return (
+    <div className="player-table-panel server-browser">
+      <div className="player-table-header">
+        <div className="player-table-title">
+          <span className="player-table-icon">&#9783;</span>
+          Servers
+          <span className="player-table-count">
+            ({onlineCount}/{servers.length} up)
+          </span>
+        </div>
+        <button
+          className={`btn btn-refresh${refreshing ? " refreshing" : ""}`}
+          onClick={onRefresh}
+          disabled={refreshing}
+          title="Query all servers now"
+        >
+          &#8635;
+        </button>
+      </div>
+
+      <div className="player-table-scroll server-browser-scroll">
+        <table className="player-table">
+          <thead>
+            <tr>
+              {COLUMNS.map((col) => (
+                <th
+                  key={col.key}
+                  className={`${col.className} sortable${col.key === sortKey ? " sorted" : ""}`}
+                  onClick={() => toggleSort(col.key)}
+                >
+                  {col.label}
+                  {col.key === sortKey && (descending ? " ▾" : " ▴")}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ server, result }) => (
+              <tr
+                key={server.key}
+                className="server-browser-row"
+                onClick={() => onPick(server.host, server.port)}
+                title={result && !result.online ? result.error : `Load ${server.key} into the form`}
+              >
+                <td className="col-status">
+                  <span
+                    className={`server-state${result ? (result.online ? " up" : " down") : ""}`}
+                  />
+                </td>
+                {result?.online ? (
+                  <>
+                    <td className="col-name">
+                      {result.hostname || server.key}
+                      <span className="server-browser-address">{server.key}</span>
+                    </td>
+                    <td className="col-map">{result.map}</td>
+                    <td className="col-players">
+                      {result.players}/{result.maxPlayers}
+                      {result.bots > 0 && <span className="player-bots"> +{result.bots}</span>}
+                    </td>
+                    <td className="col-ping">
+                      {result.pingMs !== null ? `${result.pingMs} ms` : "—"}
+                    </td>
+                  </>
+                ) : (
+                  <>
+                    <td className="col-name">{server.key}</td>
+                    <td className="col-map server-browser-offline" colSpan={3}>
+                      {result ? "Offline" : "Querying…"}
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Sparkline } from "./Sparkline.tsx";
 import type { ServerInfo } from "../useRcon.ts";
+import type { RconHealth } from "@cs2-rcon/shared";
 
 interface ServerStatusProps {
   status: ServerInfo | null;
@@ -18,6 +19,22 @@ const REFRESH_OPTIONS = [
   { label: "Off", value: 0 },
 ];
 
+/** Tooltip detailing the RCON connection health, which is shared by every browser. */
+function rconHealthTitle(health: RconHealth): string {
+  const uptime =
+    health.uptimeSeconds >= 3600
+      ? `${Math.floor(health.uptimeSeconds / 3600)}h ${Math.floor((health.uptimeSeconds % 3600) / 60)}m`
+      : `${Math.floor(health.uptimeSeconds / 60)}m ${health.uptimeSeconds % 60}s`;
+  return [
+    `p95 round-trip: ${health.p95LatencyMs ?? "—"} ms`,
+    `Timeouts: ${health.timeouts}`,
+    `Errors: ${health.errors}`,
+    `Session uptime: ${uptime}`,
+    `Queued: ${health.queued}, in flight: ${health.inFlight}`,
+    "Counts cover the backend's shared connection since it was opened.",
+  ].join("\n");
+}
+
 export function ServerStatus({
   status,
   fpsHistory,
@@ -67,7 +84,12 @@ export function ServerStatus({
           <div className="server-status-grid">
             <div className="status-item">
               <span className="status-item-label">Server</span>
-              <span className="status-item-value hostname">{status.hostname || "Unknown"}</span>
+              <span
+                className="status-item-value hostname"
+                title={status.steamId ? `SteamID ${status.steamId}` : undefined}
+              >
+                {status.hostname || "Unknown"}
+              </span>
             </div>
             <div className="status-item">
               <span className="status-item-label">Map</span>
@@ -100,6 +122,25 @@ export function ServerStatus({
                 {status.cpu ? `${status.cpu.toFixed(1)}%` : "—"}
               </span>
             </div>
+            <div className="status-item">
+              <span className="status-item-label">RCON</span>
+              {status.rcon ? (
+                <span className="status-item-value" title={rconHealthTitle(status.rcon)}>
+                  {status.rcon.latencyMs !== null ? `${status.rcon.latencyMs} ms` : "—"}
+                  {status.rcon.timeouts + status.rcon.errors > 0 && (
+                    <span className="rcon-failures">
+                      {" "}
+                      ({status.rcon.timeouts + status.rcon.errors} failed)
+                    </span>
+                  )}
+                  {status.rcon.queued > 0 && (
+                    <span className="rcon-queued"> ({status.rcon.queued} queued)</span>
+                  )}
+                </span>
+              ) : (
+                <span className="status-item-value">—</span>
+              )}
+            </div>
             <div className="status-item">
               <span className="status-item-label">VAC</span>
               <span
@@ -112,6 +153,28 @@ export function ServerStatus({
               <span className="status-item-label">Type</span>
               <span className="status-item-value">{status.type || "—"}</span>
             </div>
+            <div className="status-item">
+              <span className="status-item-label">Game Port</span>
+              <span className="status-item-value">{status.gamePort ?? "—"}</span>
+            </div>
+            <div className="status-item">
+              <span className="status-item-label">GOTV</span>
+              <span className="status-item-value" title={status.tvName}>
+                {status.tvPort ? `Port ${status.tvPort}` : "—"}
+              </span>
+            </div>
+            {status.tags && status.tags.length > 0 && (
+              <div className="status-item status-tags">
+                <span className="status-item-label">Tags</span>
+                <div className="tag-chips">
+                  {status.tags.map((tag) => (
+                    <span key={tag} className="tag-chip">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="server-status-sparklines">
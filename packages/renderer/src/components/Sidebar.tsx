@@ -1,5 +1,8 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { quickCommands } from "../commands.ts";
+import { useServerProbe } from "../useServerProbe.ts";
+import type { ProbeState } from "../useServerProbe.ts";
+import { useLanDiscovery } from "../useLanDiscovery.ts";
 
 interface SidebarProps {
   connected: boolean;
@@ -8,6 +11,36 @@ interface SidebarProps {
   onDisconnect: () => void;
   onCommand: (cmd: string) => void;
   onRemoveHistory: (key: string) => void;
+  /** Server picked elsewhere (the server browser); `at` makes repeat picks distinct. */
+  pickedServer: { host: string; port: string; at: number } | null;
+}
+
+/** One-line summary of what answered the probe, shown under the address fields. */
+function ProbeStatus({ state }: { state: ProbeState }) {
+  switch (state.status) {
+    case "idle":
+      return null;
+    case "probing":
+      return <div className="probe-status probing">Probing&hellip;</div>;
+    case "error":
+      return (
+        <div className="probe-status probe-error" title={state.message}>
+          &#10007; No response
+        </div>
+      );
+    case "ok": {
+      const { probe } = state;
+      return (
+        <div className="probe-status probe-ok" title={`${probe.host}:${probe.port}`}>
+          <span className="probe-hostname">{probe.hostname || "Unnamed server"}</span>
+          <span className="probe-details">
+            {probe.map} &middot; {probe.players}/{probe.maxPlayers}
+            {probe.pingMs !== null && <> &middot; {probe.pingMs} ms</>}
+          </span>
+        </div>
+      );
+    }
+  }
 }
 
 export function Sidebar({
@@ -17,12 +50,15 @@ export function Sidebar({
   onDisconnect,
   onCommand,
   onRemoveHistory,
+  pickedServer,
 }: SidebarProps) {
   const [host, setHost] = useState("");
   const [port, setPort] = useState("27015");
   const [password, setPassword] = useState("");
   const [openCategories, setOpenCategories] = useState<Set<string>>(new Set(["Match Control"]));
   const passwordRef = useRef<HTMLInputElement>(null);
+  const probe = useServerProbe(host, port, !connected);
+  const lan = useLanDiscovery();
 
   function toggleConnection() {
     if (connected) {
@@ -47,6 +83,15 @@ export function Sidebar({
     passwordRef.current?.focus();
   }
 
+  // A server picked in the browser is only loaded into the form.  The
+  // password is cleared so one typed for another server is never sent to it.
+  useEffect(() => {
+    if (!pickedServer || connected) return;
+    setPassword("");
+    loadServer(pickedServer.host, pickedServer.port);
+    // Only react to new picks, not to typing
+  }, [pickedServer]);
+
   return (
     <aside className="sidebar">
       {/* Connection */}
@@ -73,6 +118,7 @@ export function Sidebar({
               />
             </div>
           </div>
+          <ProbeStatus state={probe} />
           <div className="input-group">
             <label>RCON Password</label>
             <input
@@ -120,6 +166,46 @@ export function Sidebar({
         </div>
       </div>
 
+      {/* LAN Discovery */}
+      <div className="sidebar-section">
+        <div className="sidebar-title sidebar-title-row">
+          Discovered on LAN
+          <button
+            className="btn btn-refresh"
+            onClick={lan.scan}
+            disabled={lan.state.status === "scanning"}
+            title="Broadcast a query to find servers on the local network"
+          >
+            {lan.state.status === "scanning" ? "Scanning…" : "Scan"}
+          </button>
+        </div>
+        <div className="history-list">
+          {lan.state.status === "idle" && (
+            <div className="history-empty">Scan to find servers on this network</div>
+          )}
+          {lan.state.status === "error" && (
+            <div className="history-empty lan-error">{lan.state.message}</div>
+          )}
+          {lan.state.status === "done" && lan.state.servers.length === 0 && (
+            <div className="history-empty">No servers answered</div>
+          )}
+          {lan.state.status === "done" &&
+            lan.state.servers.map((s) => (
+              <div
+                key={`${s.host}:${s.port}`}
+                className="history-item lan-item"
+                onClick={() => loadServer(s.host, String(s.port))}
+                title={`${s.host}:${s.port} · ${s.pingMs} ms`}
+              >
+                <span className="lan-hostname">{s.hostname || `${s.host}:${s.port}`}</span>
+                <span className="lan-details">
+                  {s.map} &middot; {s.players}/{s.maxPlayers}
+                </span>
+              </div>
+            ))}
+        </div>
+      </div>
+
       {/* Quick Commands */}
       <div className="sidebar-section">
         <div className="sidebar-title">Quick Commands</div>
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import type { LogEvent, LogPlayer } from "@cs2-rcon/shared";
+import {
+  applyEconomyEvent,
+  classifyBuy,
+  createEconomyState,
+  itemPrice,
+  teamBank,
+  MAX_ECONOMY_ROUNDS,
+} from "./economy.ts";
+
+const base = { timestamp: "", message: "", raw: "" };
+
+function player(userid: number, team: string): LogPlayer {
+  return { name: `P${userid}`, userid, steamId: `STEAM_1:0:${userid}`, team };
+}
+
+function purchase(userid: number, team: string, item: string): LogEvent {
+  return { ...base, kind: "purchase", category: "economy", player: player(userid, team), item };
+}
+
+function money(
+  userid: number,
+  team: string,
+  delta: number,
+  balance: number,
+  item: string | null = null,
+): LogEvent {
+  return {
+    ...base,
+    kind: "money",
+    category: "economy",
+    player: player(userid, team),
+    previous: balance - delta,
+    delta,
+    balance,
+    tracked: true,
+    purchase: item,
+  };
+}
+
+const roundStart: LogEvent = { ...base, kind: "round_start", category: "round" };
+const roundEnd: LogEvent = { ...base, kind: "round_end", category: "round" };
+
+function apply(events: LogEvent[]) {
+  return events.reduce(applyEconomyEvent, createEconomyState());
+}
+
+describe("itemPrice", () => {
+  it("prices items with or without their weapon_ / item_ prefix", () => {
+    expect(itemPrice("ak47")).toBe(2700);
+    expect(itemPrice("weapon_ak47")).toBe(2700);
+    expect(itemPrice("item_assaultsuit")).toBe(1000);
+    expect(itemPrice("vesthelm")).toBe(1000);
+  });
+
+  it("prices unknown items at 0", () => {
+    expect(itemPrice("weapon_knife")).toBe(0);
+  });
+});
+
+describe("classifyBuy", () => {
+  it("splits team equipment value into eco, force and full buys", () => {
+    expect(classifyBuy(0)).toBe("eco");
+    expect(classifyBuy(4999)).toBe("eco");
+    expect(classifyBuy(5000)).toBe("force");
+    expect(classifyBuy(19999)).toBe("force");
+    expect(classifyBuy(20000)).toBe("full");
+  });
+});
+
+describe("applyEconomyEvent", () => {
+  it("adds purchases and spend to the buyer's team in the current round", () => {
+    const state = apply([
+      purchase(2, "CT", "m4a1_silencer"),
+      money(2, "CT", -2900, 1100, "weapon_m4a1_silencer"),
+      purchase(3, "TERRORIST", "ak47"),
+      purchase(3, "TERRORIST", "vesthelm"),
+    ]);
+
+    expect(state.rounds).toHaveLength(1);
+    expect(state.rounds[0].teams.CT).toEqual({
+      spend: 2900,
+      equipmentValue: 2900,
+      items: ["m4a1_silencer"],
+    });
+    expect(state.rounds[0].teams.TERRORIST.equipmentValue).toBe(3700);
+    expect(state.rounds[0].teams.TERRORIST.spend).toBe(0);
+  });
+
+  it("puts freeze-time buys after a round end into the next round", () => {
+    const state = apply([
+      purchase(2, "CT", "ak47"),
+      roundStart,
+      purchase(2, "CT", "hegrenade"),
+      roundEnd,
+      purchase(2, "CT", "deagle"),
+      roundStart,
+    ]);
+
+    expect(state.rounds.map((r) => r.round)).toEqual([1, 2]);
+    expect(state.rounds[0].teams.CT.items).toEqual(["ak47", "hegrenade"]);
+    expect(state.rounds[1].teams.CT.items).toEqual(["deagle"]);
+  });
+
+  it("opens a round for a round start even when nobody buys", () => {
+    const state = apply([roundStart, roundEnd, roundStart]);
+
+    expect(state.rounds.map((r) => r.round)).toEqual([1, 2]);
+    expect(state.rounds[1].teams.CT.equipmentValue).toBe(0);
+  });
+
+  it("nets refunds out of the spend", () => {
+    const state = apply([
+      money(2, "CT", -4750, 250, "weapon_awp"),
+      money(2, "CT", 4750, 5000, "weapon_awp"),
+    ]);
+
+    expect(state.rounds[0].teams.CT.spend).toBe(0);
+  });
+
+  it("ignores purchases by players not on a team", () => {
+    const state = apply([purchase(2, "Spectator", "ak47")]);
+    expect(state.rounds).toHaveLength(0);
+  });
+
+  it("keeps only the most recent rounds", () => {
+    const events: LogEvent[] = [];
+    for (let i = 0; i < MAX_ECONOMY_ROUNDS + 5; i++) {
+      events.push(roundStart, roundEnd);
+    }
+    const state = apply(events);
+
+    expect(state.rounds).toHaveLength(MAX_ECONOMY_ROUNDS);
+    expect(state.rounds[state.rounds.length - 1].round).toBe(MAX_ECONOMY_ROUNDS + 5);
+  });
+
+  it("starts over when the match goes live", () => {
+    const matchStart: LogEvent = { ...base, kind: "match_start", category: "match", map: null };
+    const state = apply([
+      purchase(2, "CT", "awp"),
+      money(2, "CT", -4750, 11250, "weapon_awp"),
+      matchStart,
+    ]);
+
+    expect(state).toEqual(createEconomyState());
+  });
+
+  it("returns the same state for unrelated events", () => {
+    const state = createEconomyState();
+    const chat: LogEvent = {
+      ...base,
+      kind: "chat",
+      category: "chat",
+      player: player(2, "CT"),
+      text: "gl",
+      teamOnly: false,
+    };
+    expect(applyEconomyEvent(state, chat)).toBe(state);
+  });
+});
+
+describe("teamBank", () => {
+  it("sums each team's latest balances and forgets players who leave", () => {
+    const leave: LogEvent = {
+      ...base,
+      kind: "disconnected",
+      category: "disconnection",
+      player: player(4, "CT"),
+      reason: "Disconnect",
+    };
+    const state = apply([
+      money(2, "CT", 1900, 3300),
+      money(2, "CT", -2900, 400, "weapon_m4a1_silencer"),
+      money(3, "TERRORIST", 3250, 4000),
+      money(4, "CT", 1400, 2000),
+      leave,
+    ]);
+
+    expect(teamBank(state)).toEqual({ CT: 400, TERRORIST: 4000 });
+  });
+});
@@ -0,0 +1,191 @@
+import type { LogEvent } from "@cs2-rcon/shared";
+
+export type EconomyTeam = "CT" | "TERRORIST";
+export type BuyType = "eco" | "force" | "full";
+
+/** One team's buying in one round. */
+export interface TeamEconomy {
+  /** Money spent, from `money change` lines (net of refunds). */
+  spend: number;
+  /** List price of everything bought, from `purchased` lines. */
+  equipmentValue: number;
+  /** Items bought, as logged. */
+  items: string[];
+}
+
+export interface RoundEconomy {
+  /** 1-based, counted from when tracking started. */
+  round: number;
+  teams: Record<EconomyTeam, TeamEconomy>;
+}
+
+export interface EconomyState {
+  /** Oldest first, capped at MAX_ECONOMY_ROUNDS. */
+  rounds: RoundEconomy[];
+  /** Set by a round end: the next buy belongs to a new round. */
+  roundOver: boolean;
+  /** Latest known money per player, keyed by userid. */
+  balances: Record<number, { team: string; balance: number }>;
+}
+
+export const MAX_ECONOMY_ROUNDS = 30;
+
+/** Team equipment value below which a round counts as an eco. */
+export const ECO_THRESHOLD = 5000;
+/** Team equipment value from which a round counts as a full buy; between the two is a force. */
+export const FULL_BUY_THRESHOLD = 20000;
+
+/** Buy menu prices, keyed by item name without its `weapon_` / `item_` prefix. */
+const ITEM_PRICES: Record<string, number> = {
+  glock: 200,
+  hkp2000: 200,
+  usp_silencer: 200,
+  p250: 300,
+  elite: 300,
+  fiveseven: 500,
+  tec9: 500,
+  cz75a: 500,
+  deagle: 700,
+  revolver: 600,
+  mac10: 1050,
+  mp9: 1250,
+  mp7: 1500,
+  mp5sd: 1500,
+  ump45: 1200,
+  p90: 2350,
+  bizon: 1400,
+  galilar: 1800,
+  famas: 2050,
+  ak47: 2700,
+  m4a1: 3100,
+  m4a1_silencer: 2900,
+  sg556: 3000,
+  aug: 3300,
+  ssg08: 1700,
+  awp: 4750,
+  g3sg1: 5000,
+  scar20: 5000,
+  nova: 1050,
+  xm1014: 2000,
+  sawedoff: 1100,
+  mag7: 1300,
+  m249: 5200,
+  negev: 1700,
+  vest: 650,
+  kevlar: 650,
+  vesthelm: 1000,
+  assaultsuit: 1000,
+  defuser: 400,
+  taser: 200,
+  hegrenade: 300,
+  flashbang: 200,
+  smokegrenade: 300,
+  molotov: 400,
+  incgrenade: 500,
+  decoy: 50,
+};
+
+export function createEconomyState(): EconomyState {
+  return { rounds: [], roundOver: false, balances: {} };
+}
+
+/** List price of a logged item; 0 for anything not in the buy menu. */
+export function itemPrice(item: string): number {
+  return ITEM_PRICES[item.replace(/^(weapon|item)_/, "")] ?? 0;
+}
+
+export function classifyBuy(equipmentValue: number): BuyType {
+  if (equipmentValue < ECO_THRESHOLD) return "eco";
+  if (equipmentValue < FULL_BUY_THRESHOLD) return "force";
+  return "full";
+}
+
+function isEconomyTeam(team: string): team is EconomyTeam {
+  return team === "CT" || team === "TERRORIST";
+}
+
+function emptyRound(round: number): RoundEconomy {
+  const empty = (): TeamEconomy => ({ spend: 0, equipmentValue: 0, items: [] });
+  return { round, teams: { CT: empty(), TERRORIST: empty() } };
+}
+
+/**
+ * Return `state` with the last round replaced by a copy that `update` may
+ * modify, opening a new round first if the previous one has ended.
+ */
+function withCurrentRound(
+  state: EconomyState,
+  update: (round: RoundEconomy) => void,
+): EconomyState {
+  let rounds = state.rounds;
+  const last = rounds[rounds.length - 1];
+  if (!last || state.roundOver) {
+    rounds = [...rounds, emptyRound((last?.round ?? 0) + 1)].slice(-MAX_ECONOMY_ROUNDS);
+  }
+  const current = rounds[rounds.length - 1];
+  const copy: RoundEconomy = {
+    round: current.round,
+    teams: {
+      CT: { ...current.teams.CT, items: [...current.teams.CT.items] },
+      TERRORIST: { ...current.teams.TERRORIST, items: [...current.teams.TERRORIST.items] },
+    },
+  };
+  update(copy);
+  return { ...state, rounds: [...rounds.slice(0, -1), copy], roundOver: false };
+}
+
+/**
+ * Fold one log event into the economy.  Buying happens in freeze time,
+ * before `Round_Start` is logged, so a round is opened by the first buy (or
+ * round start) after the previous `Round_End` rather than by the start itself.
+ * A match start clears everything bought during warmup.
+ * Events that don't concern the economy return `state` unchanged.
+ */
+export function applyEconomyEvent(state: EconomyState, event: LogEvent): EconomyState {
+  switch (event.kind) {
+    case "match_start":
+      return createEconomyState();
+    case "round_start":
+      return state.roundOver || state.rounds.length === 0
+        ? withCurrentRound(state, () => {})
+        : state;
+    case "round_end":
+      return state.rounds.length > 0 ? { ...state, roundOver: true } : state;
+    case "purchase": {
+      const team = event.player.team;
+      if (!isEconomyTeam(team)) return state;
+      return withCurrentRound(state, (round) => {
+        round.teams[team].equipmentValue += itemPrice(event.item);
+        round.teams[team].items.push(event.item);
+      });
+    }
+    case "money": {
+      const { team, userid } = event.player;
+      const balances = { ...state.balances, [userid]: { team, balance: event.balance } };
+      if (!event.purchase || !isEconomyTeam(team)) {
+        return { ...state, balances };
+      }
+      const next = withCurrentRound(state, (round) => {
+        round.teams[team].spend -= event.delta;
+      });
+      return { ...next, balances };
+    }
+    case "disconnected": {
+      if (!(event.player.userid in state.balances)) return state;
+      const balances = { ...state.balances };
+      delete balances[event.player.userid];
+      return { ...state, balances };
+    }
+    default:
+      return state;
+  }
+}
+
+/** Total money currently held by each team, from the latest balances. */
+export function teamBank(state: EconomyState): Record<EconomyTeam, number> {
+  const bank = { CT: 0, TERRORIST: 0 };
+  for (const { team, balance } of Object.values(state.balances)) {
+    if (isEconomyTeam(team)) bank[team] += balance;
+  }
+  return bank;
+}
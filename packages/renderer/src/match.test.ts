@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import type { LogEvent } from "@cs2-rcon/shared";
+import { applyMatchEvent, createMatchState } from "./match.ts";
+
+const base = { timestamp: "", message: "", raw: "" };
+
+function apply(events: LogEvent[]) {
+  return events.reduce(applyMatchEvent, createMatchState());
+}
+
+function teamScore(team: string, score: number): LogEvent {
+  return { ...base, kind: "team_score", category: "match", team, score, players: 5 };
+}
+
+describe("applyMatchEvent", () => {
+  it("starts a new map in warmup with a clean score", () => {
+    const state = apply([
+      teamScore("CT", 9),
+      { ...base, kind: "map_loading", category: "match", map: "de_nuke" },
+    ]);
+
+    expect(state).toEqual({
+      map: "de_nuke",
+      phase: "warmup",
+      score: { ct: 0, t: 0 },
+      roundsPlayed: 0,
+    });
+  });
+
+  it("goes live on match start, keeping the map when the line doesn't name one", () => {
+    const state = apply([
+      { ...base, kind: "map_started", category: "match", map: "de_nuke" },
+      teamScore("CT", 1),
+      { ...base, kind: "match_start", category: "match", map: null },
+    ]);
+
+    expect(state).toMatchObject({ map: "de_nuke", phase: "live", score: { ct: 0, t: 0 } });
+  });
+
+  it("tracks each side's score from team scores and match status", () => {
+    const afterScores = apply([teamScore("CT", 3), teamScore("TERRORIST", 2), teamScore("X", 9)]);
+    expect(afterScores).toMatchObject({ phase: "live", score: { ct: 3, t: 2 } });
+
+    const afterStatus = applyMatchEvent(afterScores, {
+      ...base,
+      kind: "match_status",
+      category: "match",
+      score: { ct: 4, t: 2 },
+      map: "de_dust2",
+      roundsPlayed: 6,
+    });
+    expect(afterStatus).toEqual({
+      map: "de_dust2",
+      phase: "live",
+      score: { ct: 4, t: 2 },
+      roundsPlayed: 6,
+    });
+  });
+
+  it("records the final score on game over", () => {
+    const state = apply([
+      {
+        ...base,
+        kind: "game_over",
+        category: "match",
+        mode: "competitive",
+        map: "de_dust2",
+        score: { ct: 13, t: 9 },
+        durationMinutes: 35,
+      },
+    ]);
+
+    expect(state).toEqual({
+      map: "de_dust2",
+      phase: "over",
+      score: { ct: 13, t: 9 },
+      roundsPlayed: 22,
+    });
+  });
+
+  it("returns the same state for unrelated events", () => {
+    const state = createMatchState();
+    expect(applyMatchEvent(state, { ...base, kind: "round_start", category: "round" })).toBe(state);
+  });
+});
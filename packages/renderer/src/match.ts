@@ -0,0 +1,61 @@
+import type { LogEvent, MatchScore } from "@cs2-rcon/shared";
+
+export type { MatchScore };
+
+export type MatchPhase = "warmup" | "live" | "over";
+
+/** The match as far as the game log has told us. */
+export interface MatchState {
+  map: string | null;
+  /** Null until a log line tells us where the match is, e.g. after joining mid-match. */
+  phase: MatchPhase | null;
+  score: MatchScore;
+  roundsPlayed: number;
+}
+
+export function createMatchState(): MatchState {
+  return { map: null, phase: null, score: { ct: 0, t: 0 }, roundsPlayed: 0 };
+}
+
+/**
+ * Fold one log event into the match state.  A new map starts in warmup
+ * until `Match_Start`; scores come from the per-round team scores and
+ * `MatchStatus` lines, and the final one from `Game Over`.  Events that
+ * don't concern the match return `state` unchanged.
+ */
+export function applyMatchEvent(state: MatchState, event: LogEvent): MatchState {
+  switch (event.kind) {
+    case "map_loading":
+    case "map_started":
+      return { ...createMatchState(), map: event.map, phase: "warmup" };
+    case "match_start":
+      return { ...createMatchState(), map: event.map ?? state.map, phase: "live" };
+    case "team_score": {
+      const side = event.team === "CT" ? "ct" : event.team === "TERRORIST" ? "t" : null;
+      if (!side) return state;
+      return {
+        ...state,
+        phase: state.phase ?? "live",
+        score: { ...state.score, [side]: event.score },
+      };
+    }
+    case "match_status":
+      return {
+        ...state,
+        map: event.map,
+        phase: state.phase ?? "live",
+        score: event.score,
+        roundsPlayed: event.roundsPlayed,
+      };
+    case "game_over":
+      return {
+        ...state,
+        map: event.map,
+        phase: "over",
+        score: event.score,
+        roundsPlayed: event.score.ct + event.score.t,
+      };
+    default:
+      return state;
+  }
+}
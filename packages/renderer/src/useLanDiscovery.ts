@@ -0,0 +1,30 @@
+import { useCallback, useState } from "react";
+import type { ServerProbe } from "@cs2-rcon/shared";
+
+export type LanScanState =
+  | { status: "idle" }
+  | { status: "scanning" }
+  | { status: "done"; servers: ServerProbe[] }
+  | { status: "error"; message: string };
+
+/** Scan the LAN for servers on demand, via `GET /api/discover`. */
+export function useLanDiscovery() {
+  const [state, setState] = useState<LanScanState>({ status: "idle" });
+
+  const scan = useCallback(async () => {
+    setState({ status: "scanning" });
+    try {
+      const res = await fetch("/api/discover");
+      const body = await res.json();
+      if (res.ok) {
+        setState({ status: "done", servers: body as ServerProbe[] });
+      } else {
+        setState({ status: "error", message: body.error ?? `HTTP ${res.status}` });
+      }
+    } catch (err) {
+      setState({ status: "error", message: (err as Error).message });
+    }
+  }, []);
+
+  return { state, scan };
+}
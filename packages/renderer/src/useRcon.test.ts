@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { formatTimestamp, MAX_CONSOLE_LINES } from "./useRcon.ts";
+import { formatTimestamp, MAX_CONSOLE_LINES, ERROR_HINTS } from "./useRcon.ts";
 import type { ConsoleLine } from "./useRcon.ts";
 
 describe("formatTimestamp", () => {
@@ -48,3 +48,15 @@ describe("trimLines (via MAX_CONSOLE_LINES)", () => {
     expect(trimmed[trimmed.length - 1].id).toBe(MAX_CONSOLE_LINES + 99);
   });
 });
+
+describe("ERROR_HINTS", () => {
+  it("has advice for the errors a user can act on", () => {
+    for (const code of ["auth_failed", "banned", "connection_refused", "timeout"] as const) {
+      expect(ERROR_HINTS[code]).toBeTruthy();
+    }
+  });
+
+  it("has no advice for unknown errors", () => {
+    expect(ERROR_HINTS.unknown).toBeUndefined();
+  });
+});
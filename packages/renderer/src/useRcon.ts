@@ -1,7 +1,11 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import type { ServerInfo, PlayerInfo } from "@cs2-rcon/shared";
+import type { ServerInfo, PlayerInfo, ErrorCode, ServerRule, LogCategory } from "@cs2-rcon/shared";
+import { applyEconomyEvent, createEconomyState } from "./economy.ts";
+import type { EconomyState } from "./economy.ts";
+import { applyMatchEvent, createMatchState } from "./match.ts";
+import type { MatchState } from "./match.ts";
 
-export type { ServerInfo, PlayerInfo };
+export type { ServerInfo, PlayerInfo, ServerRule };
 
 export type LineType = "system" | "info" | "cmd" | "response" | "error" | "log";
 
@@ -10,6 +14,15 @@ export interface ConsoleLine {
   text: string;
   type: LineType;
   timestamp: number;
+  /** For game log lines: what kind of event, so it can be styled. */
+  category?: LogCategory;
+}
+
+/** The last A2S_RULES reply, with the server it came from. */
+export interface ServerRulesState {
+  host: string;
+  port: number;
+  rules: ServerRule[];
 }
 
 interface HistoryEntry {
@@ -31,6 +44,19 @@ const HISTORY_KEY = "rcon_history";
 const INACTIVITY_TIMEOUT_MS = 15 * 60 * 1000;
 const WARNING_BEFORE_MS = 60 * 1000;
 
+/** Troubleshooting advice shown under errors the backend tags with a code. */
+export const ERROR_HINTS: Partial<Record<ErrorCode, string>> = {
+  auth_failed:
+    "Check the rcon_password set on the server. Repeated failures can get this address banned.",
+  banned:
+    "The server is refusing RCON from this address, usually after too many wrong passwords. Wait for sv_rcon_banpenalty to expire or remove the ban on the server.",
+  connection_refused:
+    "Nothing is accepting RCON on that port. Make sure the server is running and was started with -usercon.",
+  timeout:
+    "The server did not answer in time. Check the host and port, and any firewall in between.",
+  connection_closed: "The server closed the connection. It may be restarting or changing map.",
+};
+
 /** Format a timestamp (Date.now() value) as HH:MM:SS. */
 export function formatTimestamp(ts: number): string {
   const d = new Date(ts);
@@ -76,6 +102,9 @@ export function useRcon() {
     return localStorage.getItem(SHOW_TIMESTAMPS_KEY) === "true";
   });
   const [logStreaming, setLogStreaming] = useState(false);
+  const [serverRules, setServerRules] = useState<ServerRulesState | null>(null);
+  const [economy, setEconomy] = useState<EconomyState>(createEconomyState);
+  const [match, setMatch] = useState<MatchState>(createMatchState);
 
   const wsRef = useRef<WebSocket | null>(null);
   const connectedRef = useRef(false);
@@ -84,9 +113,12 @@ export function useRcon() {
   const countdownIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const autoRefreshRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
-  const log = useCallback((text: string, type: LineType = "system") => {
+  const log = useCallback((text: string, type: LineType = "system", category?: LogCategory) => {
     setLines((prev) => {
-      const updatedLines = [...prev, { id: lineId.current++, text, type, timestamp: Date.now() }];
+      const updatedLines = [
+        ...prev,
+        { id: lineId.current++, text, type, timestamp: Date.now(), category },
+      ];
       // Cap the array at MAX_CONSOLE_LINES to prevent unbounded memory growth
       return updatedLines.slice(-MAX_CONSOLE_LINES);
     });
@@ -229,9 +261,12 @@ export function useRcon() {
                 log(msg.body, "response");
               }
               break;
-            case "error":
+            case "error": {
               log(msg.message, "error");
+              const hint = msg.code ? ERROR_HINTS[msg.code as ErrorCode] : undefined;
+              if (hint) log(hint, "info");
               break;
+            }
             case "server_status":
               setServerStatus(msg.server);
               if (typeof msg.server.fps === "number") {
@@ -246,8 +281,13 @@ export function useRcon() {
             case "player_list":
               setPlayers(msg.players);
               break;
+            case "server_rules":
+              setServerRules({ host: msg.host, port: msg.port, rules: msg.rules });
+              break;
             case "log_event":
-              log(msg.event.message, "log");
+              log(msg.event.message, "log", msg.event.category);
+              setEconomy((prev) => applyEconomyEvent(prev, msg.event));
+              setMatch((prev) => applyMatchEvent(prev, msg.event));
               break;
             case "log_streaming":
               setLogStreaming(msg.enabled);
@@ -342,6 +382,22 @@ export function useRcon() {
     wsRef.current.send(JSON.stringify({ type: "request_status" }));
   }, []);
 
+  /** Query public cvars of `host:port`, or of the connected server when omitted. */
+  const requestRules = useCallback(
+    (host?: string, port?: string) => {
+      if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+        log("WebSocket connection is not open.", "error");
+        return;
+      }
+      if (!connectedRef.current && !host) {
+        log("Please enter a server host/IP.", "error");
+        return;
+      }
+      wsRef.current.send(JSON.stringify({ type: "request_rules", host, port }));
+    },
+    [log],
+  );
+
   const updateAutoRefreshInterval = useCallback((seconds: number) => {
     setAutoRefreshInterval(seconds);
     localStorage.setItem(AUTO_REFRESH_KEY, String(seconds));
@@ -382,6 +438,8 @@ export function useRcon() {
       setPlayers([]);
       setFpsHistory([]);
       setPlayerCountHistory([]);
+      setEconomy(createEconomyState());
+      setMatch(createMatchState());
     }
 
     return () => {
@@ -406,6 +464,9 @@ export function useRcon() {
     autoRefreshInterval,
     showTimestamps,
     logStreaming,
+    serverRules,
+    economy,
+    match,
     log,
     clearConsole,
     connectToServer,
@@ -414,6 +475,7 @@ export function useRcon() {
     removeFromHistory,
     resetInactivity,
     requestStatus,
+    requestRules,
     updateAutoRefreshInterval,
     toggleTimestamps,
     toggleLogStreaming,
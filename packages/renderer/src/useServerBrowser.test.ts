@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { sortBrowserRows } from "./useServerBrowser.ts";
+import type { BrowserRow } from "./useServerBrowser.ts";
+
+function online(key: string, hostname: string, players: number, pingMs: number | null): BrowserRow {
+  const [host, port] = key.split(":");
+  return {
+    server: { key, host, port },
+    result: {
+      online: true,
+      host,
+      port: Number(port),
+      hostname,
+      map: "de_dust2",
+      players,
+      maxPlayers: 10,
+      bots: 0,
+      pingMs,
+    },
+  };
+}
+
+const offline: BrowserRow = {
+  server: { key: "10.0.0.9:27015", host: "10.0.0.9", port: "27015" },
+  result: { online: false, host: "10.0.0.9", port: 27015, error: "timed out" },
+};
+
+const unprobed: BrowserRow = {
+  server: { key: "10.0.0.8:27015", host: "10.0.0.8", port: "27015" },
+  result: undefined,
+};
+
+const keys = (rows: BrowserRow[]) => rows.map((r) => r.server.key);
+
+describe("sortBrowserRows", () => {
+  const a = online("10.0.0.1:27015", "bravo", 4, 30);
+  const b = online("10.0.0.2:27015", "Alpha", 8, null);
+  const c = online("10.0.0.3:27015", "charlie", 1, 12);
+
+  it("sorts by hostname, ignoring case", () => {
+    expect(keys(sortBrowserRows([a, b, c], "hostname", false))).toEqual([
+      "10.0.0.2:27015",
+      "10.0.0.1:27015",
+      "10.0.0.3:27015",
+    ]);
+  });
+
+  it("keeps offline servers last in both directions", () => {
+    expect(keys(sortBrowserRows([offline, a, c], "players", false))).toEqual([
+      "10.0.0.3:27015",
+      "10.0.0.1:27015",
+      "10.0.0.9:27015",
+    ]);
+    expect(keys(sortBrowserRows([offline, a, c], "players", true))).toEqual([
+      "10.0.0.1:27015",
+      "10.0.0.3:27015",
+      "10.0.0.9:27015",
+    ]);
+  });
+
+  it("puts an unanswered ping after the answered ones", () => {
+    expect(keys(sortBrowserRows([b, a, c], "ping", false))).toEqual([
+      "10.0.0.3:27015",
+      "10.0.0.1:27015",
+      "10.0.0.2:27015",
+    ]);
+  });
+
+  it("orders by status: online, offline, then not yet probed", () => {
+    expect(keys(sortBrowserRows([unprobed, offline, a], "status", false))).toEqual([
+      "10.0.0.1:27015",
+      "10.0.0.9:27015",
+      "10.0.0.8:27015",
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ServerProbeResult } from "@cs2-rcon/shared";
+
+export type { ServerProbeResult };
+
+/** A saved server as kept in the connection history. */
+export interface SavedServer {
+  key: string;
+  host: string;
+  port: string;
+}
+
+export type BrowserSortKey = "status" | "hostname" | "map" | "players" | "ping";
+
+/** A saved server with its latest probe, if one has come back yet. */
+export interface BrowserRow {
+  server: SavedServer;
+  result: ServerProbeResult | undefined;
+}
+
+export const BROWSER_REFRESH_MS = 30_000;
+
+/** Value a row sorts by; offline or unprobed servers sort as missing (null). */
+function sortValue(row: BrowserRow, key: BrowserSortKey): string | number | null {
+  const result = row.result;
+  if (key === "status") return result ? (result.online ? 0 : 1) : 2;
+  if (!result?.online) return null;
+  switch (key) {
+    case "hostname":
+      return result.hostname.toLowerCase();
+    case "map":
+      return result.map;
+    case "players":
+      return result.players;
+    case "ping":
+      return result.pingMs;
+  }
+}
+
+/**
+ * Order rows by `key`.  Missing values always go last, whichever the
+ * direction, and ties keep the saved order.
+ */
+export function sortBrowserRows(
+  rows: BrowserRow[],
+  key: BrowserSortKey,
+  descending: boolean,
+): BrowserRow[] {
+  return [...rows].sort((a, b) => {
+    const va = sortValue(a, key);
+    const vb = sortValue(b, key);
+    if (va === vb) return 0;
+    if (va === null) return 1;
+    if (vb === null) return -1;
+    const order = va < vb ? -1 : 1;
+    return descending ? -order : order;
+  });
+}
+
+/**
+ * Probe every saved server through `POST /api/browse` now and then every
+ * `intervalMs`.  Results are keyed by the saved server's key.
+ */
+export function useServerBrowser(servers: SavedServer[], intervalMs = BROWSER_REFRESH_MS) {
+  const [results, setResults] = useState<Map<string, ServerProbeResult>>(new Map());
+  const [refreshing, setRefreshing] = useState(false);
+  const serversRef = useRef(servers);
+  serversRef.current = servers;
+
+  const refresh = useCallback(async () => {
+    const list = serversRef.current;
+    if (list.length === 0) return;
+
+    setRefreshing(true);
+    try {
+      const res = await fetch("/api/browse", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ servers: list.map((s) => ({ host: s.host, port: s.port })) }),
+      });
+      if (!res.ok) return;
+      const probes = (await res.json()) as ServerProbeResult[];
+      // Replies come back in request order
+      setResults(new Map(list.map((s, i) => [s.key, probes[i]])));
+    } catch {
+      // Backend unreachable; keep showing the last results
+    } finally {
+      setRefreshing(false);
+    }
+  }, []);
+
+  const serverKeys = servers.map((s) => s.key).join(",");
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, intervalMs);
+    return () => clearInterval(timer);
+  }, [refresh, intervalMs, serverKeys]);
+
+  return { results, refreshing, refresh };
+}
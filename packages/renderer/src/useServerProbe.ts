@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import type { ServerProbe } from "@cs2-rcon/shared";
+
+export type { ServerProbe };
+
+export type ProbeState =
+  | { status: "idle" }
+  | { status: "probing" }
+  | { status: "ok"; probe: ServerProbe }
+  | { status: "error"; message: string };
+
+/** Wait this long after the last keystroke before probing. */
+const PROBE_DEBOUNCE_MS = 600;
+
+/**
+ * Probe `host:port` over A2S (via `GET /api/probe`) while the user types,
+ * so the connection form can show what answers there before a password is
+ * entered.  Stays idle while `enabled` is false or the host is empty.
+ */
+export function useServerProbe(host: string, port: string, enabled: boolean): ProbeState {
+  const [state, setState] = useState<ProbeState>({ status: "idle" });
+
+  useEffect(() => {
+    const target = host.trim();
+    if (!enabled || !target) {
+      setState({ status: "idle" });
+      return;
+    }
+
+    const abort = new AbortController();
+    const timer = setTimeout(async () => {
+      setState({ status: "probing" });
+      const query = new URLSearchParams({ host: target, port: port.trim() || "27015" });
+      try {
+        const res = await fetch(`/api/probe?${query}`, { signal: abort.signal });
+        const body = await res.json();
+        if (res.ok) {
+          setState({ status: "ok", probe: body as ServerProbe });
+        } else {
+          setState({ status: "error", message: body.error ?? `HTTP ${res.status}` });
+        }
+      } catch (err) {
+        if (abort.signal.aborted) return;
+        setState({ status: "error", message: (err as Error).message });
+      }
+    }, PROBE_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      abort.abort();
+    };
+  }, [host, port, enabled]);
+
+  return state;
+}
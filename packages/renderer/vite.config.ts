@@ -5,6 +5,7 @@ export default defineConfig({
   plugins: [react()],
   server: {
     proxy: {
+      "/api": "http://localhost:3000",
       "/ws": {
         target: "http://localhost:3000",
         ws: true,
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from "vitest";
+import { A2SCache } from "./a2s-cache.js";
+
+/** A cache on a hand-driven clock. */
+function setup(options: { ttlMs?: number; minIntervalMs?: number } = {}) {
+  let time = 0;
+  const cache = new A2SCache({ ...options, now: () => time });
+  return {
+    cache,
+    advance(ms: number) {
+      time += ms;
+    },
+  };
+}
+
+describe("A2SCache", () => {
+  it("serves a fresh answer without querying again", async () => {
+    const { cache, advance } = setup({ ttlMs: 2000 });
+    const query = vi.fn().mockResolvedValue("answer");
+
+    expect(await cache.get("info", "10.0.0.1", 27015, query)).toBe("answer");
+    advance(1999);
+    expect(await cache.get("info", "10.0.0.1", 27015, query)).toBe("answer");
+
+    expect(query).toHaveBeenCalledOnce();
+  });
+
+  it("queries again once the answer has expired", async () => {
+    const { cache, advance } = setup({ ttlMs: 2000 });
+    const query = vi.fn().mockResolvedValueOnce("old").mockResolvedValueOnce("new");
+
+    await cache.get("info", "10.0.0.1", 27015, query);
+    advance(2000);
+
+    expect(await cache.get("info", "10.0.0.1", 27015, query)).toBe("new");
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("hands concurrent callers the query already in flight", async () => {
+    const { cache } = setup();
+    let finish!: (value: string) => void;
+    const query = vi.fn(() => new Promise<string>((resolve) => (finish = resolve)));
+
+    const first = cache.get("info", "10.0.0.1", 27015, query);
+    const second = cache.get("info", "10.0.0.1", 27015, query);
+    finish("answer");
+
+    expect(await Promise.all([first, second])).toEqual(["answer", "answer"]);
+    expect(query).toHaveBeenCalledOnce();
+  });
+
+  it("repeats a failure within the rate limit instead of querying again", async () => {
+    const { cache, advance } = setup({ minIntervalMs: 1000 });
+    const query = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("timed out"))
+      .mockResolvedValueOnce("answer");
+
+    await expect(cache.get("info", "10.0.0.1", 27015, query)).rejects.toThrow("timed out");
+    advance(999);
+    await expect(cache.get("info", "10.0.0.1", 27015, query)).rejects.toThrow("timed out");
+    expect(query).toHaveBeenCalledOnce();
+
+    advance(1);
+    expect(await cache.get("info", "10.0.0.1", 27015, query)).toBe("answer");
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves a stale answer while the rate limit holds", async () => {
+    const { cache, advance } = setup({ ttlMs: 500, minIntervalMs: 5000 });
+    const query = vi.fn().mockResolvedValueOnce("old").mockResolvedValueOnce("new");
+
+    await cache.get("info", "10.0.0.1", 27015, query);
+    advance(1000);
+    expect(await cache.get("info", "10.0.0.1", 27015, query)).toBe("old");
+
+    advance(4000);
+    expect(await cache.get("info", "10.0.0.1", 27015, query)).toBe("new");
+  });
+
+  it("keeps kinds and targets apart", async () => {
+    const { cache } = setup();
+    const query = vi.fn().mockResolvedValue("answer");
+
+    await cache.get("info", "10.0.0.1", 27015, query);
+    await cache.get("rules", "10.0.0.1", 27015, query);
+    await cache.get("info", "10.0.0.1", 27016, query);
+    await cache.get("info", "10.0.0.2", 27015, query);
+
+    expect(query).toHaveBeenCalledTimes(4);
+    expect(cache.size).toBe(4);
+  });
+
+  it("drops entries that can no longer be served", async () => {
+    const { cache, advance } = setup({ ttlMs: 2000, minIntervalMs: 1000 });
+    const query = vi.fn().mockResolvedValue("answer");
+
+    await cache.get("info", "10.0.0.1", 27015, query);
+    advance(2000);
+    await cache.get("info", "10.0.0.2", 27015, query);
+
+    expect(cache.size).toBe(1);
+  });
+});
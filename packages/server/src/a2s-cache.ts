@@ -0,0 +1,121 @@
+import { queryA2SInfo, queryA2SPing, queryA2SPlayer, queryA2SRules } from "./a2s.js";
+import type { A2SInfoResponse, A2SPlayer, A2SRule } from "./a2s.js";
+
+export interface A2SCacheOptions {
+  /** How long an answer is served from the cache (default: 2000). */
+  ttlMs?: number;
+  /**
+   * Least time between two queries of the same kind to one server
+   * (default: 1000).  Within it, callers get the last outcome, failures
+   * included, instead of a new query.
+   */
+  minIntervalMs?: number;
+  /** Clock, overridable for tests. */
+  now?: () => number;
+}
+
+interface CacheEntry {
+  /** The query's promise; once settled, it is the cached outcome. */
+  promise: Promise<unknown>;
+  startedAt: number;
+  /** When the query settled, or null while in flight. */
+  settledAt: number | null;
+  ok: boolean;
+}
+
+const DEFAULT_TTL_MS = 2_000;
+const DEFAULT_MIN_INTERVAL_MS = 1_000;
+
+/**
+ * Short-lived cache in front of the A2S queries.
+ *
+ * Every dashboard polls `request_status` on its own timer, so without it a
+ * game server's query port sees one UDP exchange per browser per poll.
+ * The cache answers from the last result while it is younger than `ttlMs`,
+ * hands concurrent callers the one query already in flight, and never
+ * queries a server more often than once per `minIntervalMs`, even after a
+ * failure.
+ *
+ * Usage:
+ * ```ts
+ * const cache = new A2SCache();
+ * const info = await cache.info("10.0.0.5", 27015, 3000);
+ * ```
+ */
+export class A2SCache {
+  private entries = new Map<string, CacheEntry>();
+  private readonly ttlMs: number;
+  private readonly minIntervalMs: number;
+  private readonly now: () => number;
+
+  constructor(options: A2SCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.minIntervalMs = options.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  info(host: string, port: number, timeoutMs?: number): Promise<A2SInfoResponse> {
+    return this.get("info", host, port, () => queryA2SInfo(host, port, timeoutMs));
+  }
+
+  players(host: string, port: number, timeoutMs?: number): Promise<A2SPlayer[]> {
+    return this.get("player", host, port, () => queryA2SPlayer(host, port, timeoutMs));
+  }
+
+  rules(host: string, port: number, timeoutMs?: number): Promise<A2SRule[]> {
+    return this.get("rules", host, port, () => queryA2SRules(host, port, timeoutMs));
+  }
+
+  ping(host: string, port: number, timeoutMs?: number): Promise<number> {
+    return this.get("ping", host, port, () => queryA2SPing(host, port, timeoutMs));
+  }
+
+  /**
+   * Run `query` for the `kind` of answer from `host:port`, unless a fresh
+   * answer, a query in flight or the rate limit makes it unnecessary.
+   */
+  get<T>(kind: string, host: string, port: number, query: () => Promise<T>): Promise<T> {
+    const now = this.now();
+    this.prune(now);
+
+    const key = `${kind}:${host}:${port}`;
+    const entry = this.entries.get(key);
+    if (entry) {
+      const inFlight = entry.settledAt === null;
+      const fresh = entry.ok && entry.settledAt !== null && now - entry.settledAt < this.ttlMs;
+      const limited = now - entry.startedAt < this.minIntervalMs;
+      if (inFlight || fresh || limited) {
+        return entry.promise as Promise<T>;
+      }
+    }
+
+    const promise = query();
+    const created: CacheEntry = { promise, startedAt: now, settledAt: null, ok: false };
+    this.entries.set(key, created);
+    promise.then(
+      () => {
+        created.ok = true;
+        created.settledAt = this.now();
+      },
+      () => {
+        created.settledAt = this.now();
+      },
+    );
+    return promise;
+  }
+
+  /** Number of servers × kinds currently cached or in flight. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Drop entries that can no longer be served, so the map doesn't grow forever. */
+  private prune(now: number): void {
+    const keepMs = Math.max(this.ttlMs, this.minIntervalMs);
+    for (const [key, entry] of this.entries) {
+      if (entry.settledAt !== null && now - entry.settledAt >= keepMs) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
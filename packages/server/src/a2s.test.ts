@@ -1,5 +1,24 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { buildA2SInfoRequest, parseA2SInfoResponse, queryA2SInfo } from "./a2s.js";
+import {
+  buildA2SInfoRequest,
+  buildA2SPlayerRequest,
+  buildA2SRulesRequest,
+  crc32,
+  discoverA2S,
+  mergeA2SPlayers,
+  parseA2SInfoResponse,
+  parseA2SPlayerResponse,
+  parseA2SRulesResponse,
+  parseKeywords,
+  parsePortList,
+  parseSplitPacket,
+  queryA2SInfo,
+  queryA2SPing,
+  queryA2SPlayer,
+  queryA2SRules,
+  reassembleSplitPackets,
+} from "./a2s.js";
+import type { PlayerInfo } from "@cs2-rcon/shared";
 import dgram from "node:dgram";
 
 // ---------------------------------------------------------------------------
@@ -61,6 +80,8 @@ describe("parseA2SInfoResponse", () => {
     visibility?: number;
     vac?: number;
     version?: string;
+    /** Raw bytes appended after the version string (EDF and its fields). */
+    extra?: Buffer;
   }): Buffer {
     const parts: Buffer[] = [];
 
@@ -96,6 +117,8 @@ describe("parseA2SInfoResponse", () => {
     // Version
     parts.push(str(opts.version ?? "1.40.1.0"));
 
+    if (opts.extra) parts.push(opts.extra);
+
     return Buffer.concat(parts);
   }
 
@@ -164,6 +187,70 @@ describe("parseA2SInfoResponse", () => {
     expect(info.hostname).toBe("");
     expect(info.map).toBe("");
   });
+
+  it("leaves the EDF fields undefined when the packet ends after the version", () => {
+    const info = parseA2SInfoResponse(buildFakeResponse({}));
+    expect(info.gamePort).toBeUndefined();
+    expect(info.steamId).toBeUndefined();
+    expect(info.sourceTvPort).toBeUndefined();
+    expect(info.keywords).toBeUndefined();
+    expect(info.gameId).toBeUndefined();
+  });
+
+  it("parses every EDF field from a captured CS2 response", () => {
+    // EDF 0xF1: game port, SteamID, SourceTV, keywords and GameID
+    const fixture = Buffer.from(
+      "ffffffff491146697874757265204353320064655f696e6665726e6f006373676f00436f756e74" +
+        "65722d537472696b65203200da02050a00646c0001312e34302e322e3000f1876901001b978c00" +
+        "40018c69474f545600636f6d70657469746976652c7365637572652c2076616c76655f647300da" +
+        "02000000000000",
+      "hex",
+    );
+
+    const info = parseA2SInfoResponse(fixture);
+
+    expect(info.hostname).toBe("Fixture CS2");
+    expect(info.version).toBe("1.40.2.0");
+    expect(info.gamePort).toBe(27015);
+    expect(info.steamId).toBe("90072596377960449");
+    expect(info.sourceTvPort).toBe(27020);
+    expect(info.sourceTvName).toBe("GOTV");
+    expect(info.keywords).toBe("competitive,secure, valve_ds");
+    expect(info.gameId).toBe("730");
+  });
+
+  it("parses only the fields flagged in the EDF", () => {
+    const extra = Buffer.from([0xa0, 0x87, 0x69, ...Buffer.from("casual\0", "utf8")]);
+    const info = parseA2SInfoResponse(buildFakeResponse({ extra }));
+    expect(info.gamePort).toBe(27015);
+    expect(info.keywords).toBe("casual");
+    expect(info.steamId).toBeUndefined();
+    expect(info.sourceTvPort).toBeUndefined();
+    expect(info.gameId).toBeUndefined();
+  });
+
+  it("stops at fields cut off by a truncated packet", () => {
+    const extra = Buffer.from([0x91, 0x87, 0x69, 0x01, 0x02]);
+    const info = parseA2SInfoResponse(buildFakeResponse({ extra }));
+    expect(info.gamePort).toBe(27015);
+    expect(info.steamId).toBeUndefined();
+    expect(info.gameId).toBeUndefined();
+  });
+});
+
+describe("parseKeywords", () => {
+  it("splits and trims comma-separated tags", () => {
+    expect(parseKeywords("competitive, secure,,valve_ds ")).toEqual([
+      "competitive",
+      "secure",
+      "valve_ds",
+    ]);
+  });
+
+  it("returns no tags for missing or empty keywords", () => {
+    expect(parseKeywords(undefined)).toEqual([]);
+    expect(parseKeywords("")).toEqual([]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -277,4 +364,629 @@ describe("queryA2SInfo", () => {
     // Then timeout since no valid response was received
     await expect(promise).rejects.toThrow("timed out");
   });
+
+  it("reassembles a split response", async () => {
+    const promise = queryA2SInfo("127.0.0.1", 27015, 2000);
+
+    for (const part of splitResponse(buildResponse(), 16).reverse()) {
+      mockSocket._emit("message", part);
+    }
+
+    const info = await promise;
+    expect(info.hostname).toBe("TestServer");
+    expect(info.version).toBe("1.40.0.0");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// A2S_PLAYER
+// ---------------------------------------------------------------------------
+
+/** Build a fake S2A_PLAYER response buffer. */
+function buildPlayerResponse(players: { name: string; score: number; duration: number }[]) {
+  const parts: Buffer[] = [Buffer.from([0xff, 0xff, 0xff, 0xff, 0x44, players.length])];
+  players.forEach((p, index) => {
+    const fields = Buffer.alloc(8);
+    fields.writeInt32LE(p.score, 0);
+    fields.writeFloatLE(p.duration, 4);
+    parts.push(Buffer.from([index]), Buffer.from(p.name + "\0", "utf8"), fields);
+  });
+  return Buffer.concat(parts);
+}
+
+describe("buildA2SPlayerRequest", () => {
+  it("asks for a challenge with FF FF FF FF by default", () => {
+    expect([...buildA2SPlayerRequest()]).toEqual([
+      0xff, 0xff, 0xff, 0xff, 0x55, 0xff, 0xff, 0xff, 0xff,
+    ]);
+  });
+
+  it("sends the given challenge", () => {
+    const packet = buildA2SPlayerRequest(Buffer.from([0x01, 0x02, 0x03, 0x04]));
+    expect([...packet.subarray(4)]).toEqual([0x55, 0x01, 0x02, 0x03, 0x04]);
+  });
+});
+
+describe("parseA2SPlayerResponse", () => {
+  it("parses name, score and duration of every player", () => {
+    const buf = buildPlayerResponse([
+      { name: "Alice", score: 21, duration: 263.5 },
+      { name: "Bob \u2605", score: -2, duration: 75 },
+    ]);
+
+    expect(parseA2SPlayerResponse(buf)).toEqual([
+      { index: 0, name: "Alice", score: 21, duration: 263.5 },
+      { index: 1, name: "Bob \u2605", score: -2, duration: 75 },
+    ]);
+  });
+
+  it("parses an empty server", () => {
+    expect(parseA2SPlayerResponse(buildPlayerResponse([]))).toEqual([]);
+  });
+
+  it("stops at a truncated entry", () => {
+    const buf = buildPlayerResponse([
+      { name: "Alice", score: 1, duration: 10 },
+      { name: "Bob", score: 2, duration: 20 },
+    ]);
+
+    expect(parseA2SPlayerResponse(buf.subarray(0, buf.length - 3))).toHaveLength(1);
+  });
+});
+
+describe("mergeA2SPlayers", () => {
+  function player(userid: number, name: string): PlayerInfo {
+    return {
+      userid,
+      name,
+      steamId: `STEAM_1:0:${userid}`,
+      connected: "01:00",
+      ping: 20,
+      loss: 0,
+      state: "active",
+    };
+  }
+
+  it("adds score and whole-second duration by name", () => {
+    const merged = mergeA2SPlayers(
+      [player(2, "Alice"), player(3, "Bob")],
+      [
+        { index: 0, name: "Bob", score: 7, duration: 61.9 },
+        { index: 1, name: "Alice", score: 12, duration: 300.2 },
+      ],
+    );
+
+    expect(merged[0]).toMatchObject({ userid: 2, score: 12, duration: 300 });
+    expect(merged[1]).toMatchObject({ userid: 3, score: 7, duration: 61 });
+  });
+
+  it("pairs duplicate names in order and leaves unmatched players alone", () => {
+    const merged = mergeA2SPlayers(
+      [player(2, "Player"), player(3, "Player"), player(4, "Carol")],
+      [
+        { index: 0, name: "Player", score: 1, duration: 10 },
+        { index: 1, name: "Player", score: 2, duration: 20 },
+      ],
+    );
+
+    expect(merged.map((p) => p.score)).toEqual([1, 2, undefined]);
+    expect(merged[2]).toEqual(player(4, "Carol"));
+  });
+});
+
+describe("queryA2SPlayer", () => {
+  let mockSocket: {
+    send: ReturnType<typeof vi.fn>;
+    on: ReturnType<typeof vi.fn>;
+    close: ReturnType<typeof vi.fn>;
+    _handlers: Record<string, ((...args: unknown[]) => void)[]>;
+    _emit: (event: string, ...args: unknown[]) => void;
+  };
+
+  beforeEach(() => {
+    mockSocket = {
+      send: vi.fn(),
+      on: vi.fn(),
+      close: vi.fn(),
+      _handlers: {},
+      _emit(event: string, ...args: unknown[]) {
+        for (const h of this._handlers[event] || []) h(...args);
+      },
+    };
+
+    mockSocket.on.mockImplementation((event: string, handler: (...args: unknown[]) => void) => {
+      if (!mockSocket._handlers[event]) mockSocket._handlers[event] = [];
+      mockSocket._handlers[event].push(handler);
+    });
+
+    vi.spyOn(dgram, "createSocket").mockReturnValue(mockSocket as unknown as dgram.Socket);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("answers the challenge and resolves with the player list", async () => {
+    const promise = queryA2SPlayer("127.0.0.1", 27015, 2000);
+
+    mockSocket._emit(
+      "message",
+      Buffer.from([0xff, 0xff, 0xff, 0xff, 0x41, 0xaa, 0xbb, 0xcc, 0xdd]),
+    );
+
+    expect(mockSocket.send).toHaveBeenCalledTimes(2);
+    const retry = mockSocket.send.mock.calls[1][0] as Buffer;
+    expect([...retry.subarray(4)]).toEqual([0x55, 0xaa, 0xbb, 0xcc, 0xdd]);
+
+    mockSocket._emit("message", buildPlayerResponse([{ name: "Alice", score: 3, duration: 42 }]));
+
+    const players = await promise;
+    expect(players).toEqual([{ index: 0, name: "Alice", score: 3, duration: 42 }]);
+    expect(mockSocket.close).toHaveBeenCalled();
+  });
+
+  it("rejects on timeout", async () => {
+    await expect(queryA2SPlayer("127.0.0.1", 27015, 50)).rejects.toThrow(
+      "A2S_PLAYER query timed out",
+    );
+  });
+
+  it("rejects on socket error", async () => {
+    const promise = queryA2SPlayer("127.0.0.1", 27015, 2000);
+
+    mockSocket._emit("error", new Error("ECONNREFUSED"));
+
+    await expect(promise).rejects.toThrow("ECONNREFUSED");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// A2S_RULES
+// ---------------------------------------------------------------------------
+
+/** Build a fake S2A_RULES response buffer. */
+function buildRulesResponse(rules: [string, string][]): Buffer {
+  const count = Buffer.alloc(2);
+  count.writeUInt16LE(rules.length);
+  return Buffer.concat([
+    Buffer.from([0xff, 0xff, 0xff, 0xff, 0x45]),
+    count,
+    ...rules.map(([name, value]) => Buffer.from(`${name}\0${value}\0`, "utf8")),
+  ]);
+}
+
+/** Split `response` into Source split packets of at most `size` payload bytes. */
+function splitResponse(response: Buffer, size: number, id = 0x1234, compressed = false) {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < response.length; offset += size) {
+    chunks.push(response.subarray(offset, offset + size));
+  }
+  return chunks.map((chunk, number) => {
+    const header = Buffer.alloc(12);
+    header.writeInt32LE(-2, 0);
+    header.writeUInt32LE(((compressed ? 0x80000000 : 0) | id) >>> 0, 4);
+    header.writeUInt8(chunks.length, 8);
+    header.writeUInt8(number, 9);
+    header.writeUInt16LE(size, 10);
+    return Buffer.concat([header, chunk]);
+  });
+}
+
+/** bzip2 of `buildRulesResponse([["mp_maxrounds", "24"], ["sv_cheats", "0"]])`. */
+const COMPRESSED_RULES = Buffer.from(
+  "425a6839314159265359c58aa1dc000011cf80d000540002000000ae43df400000a0002280c801a1b50a" +
+    "00311a69a344608148c986e5e677744dc26be3014940786c7e2ee48a70a1218b1543b8",
+  "hex",
+);
+const COMPRESSED_RULES_SIZE = 35;
+const COMPRESSED_RULES_CRC = 0x4e1b0d93;
+
+/** Split `COMPRESSED_RULES` into compressed split packets, with Size and CRC32 on the first. */
+function compressedRulesResponse(
+  crc = COMPRESSED_RULES_CRC,
+  size = COMPRESSED_RULES_SIZE,
+): Buffer[] {
+  const parts = splitResponse(COMPRESSED_RULES, 30, 0x77, true);
+  const sizeAndCrc = Buffer.alloc(8);
+  sizeAndCrc.writeUInt32LE(size, 0);
+  sizeAndCrc.writeUInt32LE(crc, 4);
+  parts[0] = Buffer.concat([parts[0].subarray(0, 12), sizeAndCrc, parts[0].subarray(12)]);
+  return parts;
+}
+
+describe("buildA2SRulesRequest", () => {
+  it("asks for a challenge with FF FF FF FF by default", () => {
+    expect([...buildA2SRulesRequest().subarray(4)]).toEqual([0x56, 0xff, 0xff, 0xff, 0xff]);
+  });
+});
+
+describe("parseA2SRulesResponse", () => {
+  it("parses name/value pairs", () => {
+    const buf = buildRulesResponse([
+      ["mp_maxrounds", "24"],
+      ["sv_password", "0"],
+      ["hostname", "Server \u2605"],
+    ]);
+
+    expect(parseA2SRulesResponse(buf)).toEqual([
+      { name: "mp_maxrounds", value: "24" },
+      { name: "sv_password", value: "0" },
+      { name: "hostname", value: "Server \u2605" },
+    ]);
+  });
+
+  it("parses an empty rule list", () => {
+    expect(parseA2SRulesResponse(buildRulesResponse([]))).toEqual([]);
+  });
+});
+
+describe("crc32", () => {
+  it("matches the standard CRC-32 check value", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  it("matches the checksum of a real compressed response", () => {
+    const response = buildRulesResponse([
+      ["mp_maxrounds", "24"],
+      ["sv_cheats", "0"],
+    ]);
+
+    expect(crc32(response)).toBe(COMPRESSED_RULES_CRC);
+  });
+});
+
+describe("split packets", () => {
+  it("parses the split header", () => {
+    const [first] = splitResponse(Buffer.from("abcdef"), 4, 0x42);
+
+    expect(parseSplitPacket(first)).toEqual({
+      id: 0x42,
+      total: 2,
+      number: 0,
+      compressed: false,
+      payload: Buffer.from("abcd"),
+    });
+  });
+
+  it("flags compressed responses and reads their size and checksum", () => {
+    const [first, second] = compressedRulesResponse().map(parseSplitPacket);
+
+    expect(first).toMatchObject({
+      id: 0x77,
+      compressed: true,
+      decompressedSize: COMPRESSED_RULES_SIZE,
+      crc32: COMPRESSED_RULES_CRC,
+    });
+    expect(first.payload).toEqual(COMPRESSED_RULES.subarray(0, 30));
+    expect(second.decompressedSize).toBeUndefined();
+  });
+
+  it("reassembles parts received out of order", () => {
+    const response = buildRulesResponse([["mp_freezetime", "15"]]);
+    const parts = splitResponse(response, 5).map(parseSplitPacket).reverse();
+
+    expect(reassembleSplitPackets(parts)).toEqual(response);
+  });
+
+  it("decompresses a compressed response", () => {
+    const parts = compressedRulesResponse().map(parseSplitPacket);
+
+    expect(parseA2SRulesResponse(reassembleSplitPackets(parts))).toEqual([
+      { name: "mp_maxrounds", value: "24" },
+      { name: "sv_cheats", value: "0" },
+    ]);
+  });
+
+  it("rejects a compressed response with a bad checksum", () => {
+    const parts = compressedRulesResponse(0x12345678).map(parseSplitPacket);
+
+    expect(() => reassembleSplitPackets(parts)).toThrow("failed its checksum");
+  });
+
+  it("rejects a compressed response claiming more than 1 MB before decoding it", () => {
+    const parts = compressedRulesResponse(COMPRESSED_RULES_CRC, 0xffffffff).map(parseSplitPacket);
+
+    expect(() => reassembleSplitPackets(parts)).toThrow("too large (4294967295 bytes)");
+  });
+
+  it("rejects missing, duplicated or mismatched parts", () => {
+    const parts = splitResponse(Buffer.alloc(30), 10).map(parseSplitPacket);
+
+    expect(() => reassembleSplitPackets(parts.slice(1))).toThrow("inconsistent");
+    expect(() => reassembleSplitPackets([parts[0], parts[1]])).toThrow("2 of 3 packets");
+    expect(() => reassembleSplitPackets([parts[0], parts[0], parts[1]])).toThrow("inconsistent");
+    expect(() => reassembleSplitPackets([parts[0], parts[1], { ...parts[2], total: 4 }])).toThrow(
+      "inconsistent",
+    );
+  });
+});
+
+describe("queryA2SRules", () => {
+  let mockSocket: {
+    send: ReturnType<typeof vi.fn>;
+    on: ReturnType<typeof vi.fn>;
+    close: ReturnType<typeof vi.fn>;
+    _handlers: Record<string, ((...args: unknown[]) => void)[]>;
+    _emit: (event: string, ...args: unknown[]) => void;
+  };
+
+  beforeEach(() => {
+    mockSocket = {
+      send: vi.fn(),
+      on: vi.fn(),
+      close: vi.fn(),
+      _handlers: {},
+      _emit(event: string, ...args: unknown[]) {
+        for (const h of this._handlers[event] || []) h(...args);
+      },
+    };
+
+    mockSocket.on.mockImplementation((event: string, handler: (...args: unknown[]) => void) => {
+      if (!mockSocket._handlers[event]) mockSocket._handlers[event] = [];
+      mockSocket._handlers[event].push(handler);
+    });
+
+    vi.spyOn(dgram, "createSocket").mockReturnValue(mockSocket as unknown as dgram.Socket);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const challenge = Buffer.from([0xff, 0xff, 0xff, 0xff, 0x41, 0xaa, 0xbb, 0xcc, 0xdd]);
+
+  it("answers the challenge and resolves with a single-packet response", async () => {
+    const promise = queryA2SRules("127.0.0.1", 27015, 2000);
+
+    mockSocket._emit("message", challenge);
+    const retry = mockSocket.send.mock.calls[1][0] as Buffer;
+    expect([...retry.subarray(4)]).toEqual([0x56, 0xaa, 0xbb, 0xcc, 0xdd]);
+
+    mockSocket._emit("message", buildRulesResponse([["mp_maxrounds", "24"]]));
+
+    expect(await promise).toEqual([{ name: "mp_maxrounds", value: "24" }]);
+    expect(mockSocket.close).toHaveBeenCalled();
+  });
+
+  it("reassembles a split response", async () => {
+    const rules: [string, string][] = Array.from({ length: 60 }, (_, i) => [`cvar_${i}`, `${i}`]);
+    const parts = splitResponse(buildRulesResponse(rules), 200);
+    expect(parts.length).toBeGreaterThan(2);
+
+    const promise = queryA2SRules("127.0.0.1", 27015, 2000);
+    mockSocket._emit("message", challenge);
+    for (const part of [parts[1], parts[0], ...parts.slice(2)]) {
+      mockSocket._emit("message", part);
+    }
+
+    const result = await promise;
+    expect(result).toHaveLength(60);
+    expect(result[59]).toEqual({ name: "cvar_59", value: "59" });
+  });
+
+  it("decompresses a compressed split response", async () => {
+    const promise = queryA2SRules("127.0.0.1", 27015, 2000);
+
+    mockSocket._emit("message", challenge);
+    for (const part of compressedRulesResponse()) {
+      mockSocket._emit("message", part);
+    }
+
+    expect(await promise).toHaveLength(2);
+  });
+
+  it("rejects a split response that fails its checksum", async () => {
+    const promise = queryA2SRules("127.0.0.1", 27015, 2000);
+
+    for (const part of compressedRulesResponse(0)) {
+      mockSocket._emit("message", part);
+    }
+
+    await expect(promise).rejects.toThrow("failed its checksum");
+  });
+
+  it("ignores split packets numbered beyond their count", async () => {
+    const parts = splitResponse(buildRulesResponse([["sv_cheats", "0"]]), 8);
+    const bogus = Buffer.from(parts[0]);
+    bogus.writeUInt8(parts.length, 9);
+
+    const promise = queryA2SRules("127.0.0.1", 27015, 2000);
+    mockSocket._emit("message", bogus);
+    for (const part of parts) {
+      mockSocket._emit("message", part);
+    }
+
+    expect(await promise).toEqual([{ name: "sv_cheats", value: "0" }]);
+  });
+
+  it("rejects on timeout", async () => {
+    await expect(queryA2SRules("127.0.0.1", 27015, 50)).rejects.toThrow(
+      "A2S_RULES query timed out",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// A2S ping
+// ---------------------------------------------------------------------------
+
+describe("queryA2SPing", () => {
+  let mockSocket: {
+    send: ReturnType<typeof vi.fn>;
+    on: ReturnType<typeof vi.fn>;
+    close: ReturnType<typeof vi.fn>;
+    _handlers: Record<string, ((...args: unknown[]) => void)[]>;
+    _emit: (event: string, ...args: unknown[]) => void;
+  };
+
+  beforeEach(() => {
+    mockSocket = {
+      send: vi.fn(),
+      on: vi.fn(),
+      close: vi.fn(),
+      _handlers: {},
+      _emit(event: string, ...args: unknown[]) {
+        for (const h of this._handlers[event] || []) h(...args);
+      },
+    };
+
+    mockSocket.on.mockImplementation((event: string, handler: (...args: unknown[]) => void) => {
+      if (!mockSocket._handlers[event]) mockSocket._handlers[event] = [];
+      mockSocket._handlers[event].push(handler);
+    });
+
+    vi.spyOn(dgram, "createSocket").mockReturnValue(mockSocket as unknown as dgram.Socket);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("resolves with the round-trip time of the challenge reply", async () => {
+    const now = vi.spyOn(performance, "now").mockReturnValueOnce(1000).mockReturnValueOnce(1042.4);
+    const promise = queryA2SPing("127.0.0.1", 27015, 2000);
+
+    expect([...(mockSocket.send.mock.calls[0][0] as Buffer)]).toEqual([
+      0xff, 0xff, 0xff, 0xff, 0x55, 0xff, 0xff, 0xff, 0xff,
+    ]);
+    mockSocket._emit(
+      "message",
+      Buffer.from([0xff, 0xff, 0xff, 0xff, 0x41, 0xaa, 0xbb, 0xcc, 0xdd]),
+    );
+
+    expect(await promise).toBe(42);
+    // The challenge ends the ping instead of being answered
+    expect(mockSocket.send).toHaveBeenCalledTimes(1);
+    expect(now).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects on timeout", async () => {
+    await expect(queryA2SPing("127.0.0.1", 27015, 50)).rejects.toThrow("A2S_PING query timed out");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// LAN discovery
+// ---------------------------------------------------------------------------
+
+describe("parsePortList", () => {
+  it("expands ranges and lists", () => {
+    expect(parsePortList("27015-27017")).toEqual([27015, 27016, 27017]);
+    expect(parsePortList("27015, 27020-27021,27015")).toEqual([27015, 27020, 27021]);
+  });
+
+  it("rejects invalid ports and reversed ranges", () => {
+    expect(() => parsePortList("abc")).toThrow('Invalid port or range: "abc"');
+    expect(() => parsePortList("0")).toThrow();
+    expect(() => parsePortList("27030-27015")).toThrow();
+    expect(() => parsePortList("27015-70000")).toThrow();
+  });
+});
+
+describe("discoverA2S", () => {
+  let mockSocket: {
+    send: ReturnType<typeof vi.fn>;
+    on: ReturnType<typeof vi.fn>;
+    close: ReturnType<typeof vi.fn>;
+    bind: ReturnType<typeof vi.fn>;
+    setBroadcast: ReturnType<typeof vi.fn>;
+    _handlers: Record<string, ((...args: unknown[]) => void)[]>;
+    _emit: (event: string, ...args: unknown[]) => void;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockSocket = {
+      send: vi.fn(),
+      on: vi.fn(),
+      close: vi.fn(),
+      bind: vi.fn((callback: () => void) => callback()),
+      setBroadcast: vi.fn(),
+      _handlers: {},
+      _emit(event: string, ...args: unknown[]) {
+        for (const h of this._handlers[event] || []) h(...args);
+      },
+    };
+
+    mockSocket.on.mockImplementation((event: string, handler: (...args: unknown[]) => void) => {
+      if (!mockSocket._handlers[event]) mockSocket._handlers[event] = [];
+      mockSocket._handlers[event].push(handler);
+    });
+
+    vi.spyOn(dgram, "createSocket").mockReturnValue(mockSocket as unknown as dgram.Socket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /** Build a minimal S2A_INFO_SRC buffer for `hostname`. */
+  function infoFor(hostname: string): Buffer {
+    const str = (s: string) => Buffer.from(s + "\0", "utf8");
+    return Buffer.concat([
+      Buffer.from([0xff, 0xff, 0xff, 0xff, 0x49, 17]),
+      str(hostname),
+      str("de_dust2"),
+      str("csgo"),
+      str("CS2"),
+      Buffer.from([0xda, 0x02, 2, 10, 0, 0x64, 0x6c, 0, 1]),
+      str("1.40.0.0"),
+    ]);
+  }
+
+  it("broadcasts to every address and port and collects the answers", async () => {
+    const promise = discoverA2S({
+      addresses: ["192.168.1.255", "10.0.0.255"],
+      ports: [27015, 27016],
+      timeoutMs: 1000,
+    });
+
+    expect(mockSocket.setBroadcast).toHaveBeenCalledWith(true);
+    expect(mockSocket.send.mock.calls.map((c) => `${c[4]}:${c[3]}`)).toEqual([
+      "192.168.1.255:27015",
+      "192.168.1.255:27016",
+      "10.0.0.255:27015",
+      "10.0.0.255:27016",
+    ]);
+
+    // One server wants a challenge, answered to its own address
+    mockSocket._emit("message", Buffer.from([0xff, 0xff, 0xff, 0xff, 0x41, 1, 2, 3, 4]), {
+      address: "192.168.1.20",
+      port: 27015,
+    });
+    const retry = mockSocket.send.mock.calls[4];
+    expect([retry[3], retry[4]]).toEqual([27015, "192.168.1.20"]);
+    expect([...(retry[0] as Buffer).subarray(-4)]).toEqual([1, 2, 3, 4]);
+
+    mockSocket._emit("message", infoFor("Alpha"), { address: "192.168.1.20", port: 27015 });
+    mockSocket._emit("message", infoFor("Alpha"), { address: "192.168.1.20", port: 27015 });
+    mockSocket._emit("message", infoFor("Bravo"), { address: "192.168.1.21", port: 27016 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const found = await promise;
+
+    expect(found.map((s) => [s.host, s.port, s.info.hostname])).toEqual([
+      ["192.168.1.20", 27015, "Alpha"],
+      ["192.168.1.21", 27016, "Bravo"],
+    ]);
+    expect(mockSocket.close).toHaveBeenCalled();
+  });
+
+  it("resolves with an empty list when nothing answers", async () => {
+    const promise = discoverA2S({ addresses: ["255.255.255.255"], ports: [27015], timeoutMs: 500 });
+
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(await promise).toEqual([]);
+  });
+
+  it("rejects on socket error", async () => {
+    const promise = discoverA2S({ addresses: ["255.255.255.255"], ports: [27015] });
+
+    mockSocket._emit("error", new Error("EACCES"));
+
+    await expect(promise).rejects.toThrow("EACCES");
+  });
 });
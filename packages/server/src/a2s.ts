@@ -1,16 +1,24 @@
 /**
- * A2S_INFO — Valve Source Query Protocol (UDP).
+ * A2S_INFO / A2S_PLAYER / A2S_RULES — Valve Source Query Protocol (UDP).
  *
  * This module implements the A2S_INFO query which retrieves public server
- * information (hostname, map, player counts, version, etc.) without needing
- * RCON authentication.  It is intentionally kept separate from the RCON
- * client because it uses a completely different transport (UDP vs TCP) and
- * protocol framing.
+ * information (hostname, map, player counts, version, etc.), the A2S_PLAYER
+ * query which lists connected players with their score and connection
+ * time, and the A2S_RULES query which lists the publicly replicated cvars,
+ * all without needing RCON authentication.  It is intentionally kept
+ * separate from the RCON client because it uses a completely different
+ * transport (UDP vs TCP) and protocol framing.
+ *
+ * `discoverA2S` broadcasts A2S_INFO to find servers on the local network.
  *
  * Reference: https://developer.valvesoftware.com/wiki/Server_queries#A2S_INFO
+ *            https://developer.valvesoftware.com/wiki/Server_queries#A2S_PLAYER
+ *            https://developer.valvesoftware.com/wiki/Server_queries#A2S_RULES
  */
 
 import dgram from "node:dgram";
+import Bunzip from "seek-bzip";
+import type { PlayerInfo } from "@cs2-rcon/shared";
 
 /* ─── Response type ─── */
 
@@ -29,6 +37,49 @@ export interface A2SInfoResponse {
   visibility: boolean; // true = private
   vac: boolean;
   version: string;
+  /* Extra Data Flag fields, present only when the server sends them */
+  /** Port the game itself listens on. */
+  gamePort?: number;
+  /** 64-bit SteamID of the server, as a decimal string. */
+  steamId?: string;
+  /** SourceTV (GOTV) relay port and name. */
+  sourceTvPort?: number;
+  sourceTvName?: string;
+  /** Comma-separated tags (`sv_tags`). */
+  keywords?: string;
+  /** 64-bit GameID, as a decimal string; the low 24 bits are the app id. */
+  gameId?: string;
+}
+
+export interface A2SPlayer {
+  index: number;
+  name: string;
+  /** Kills, or the score of the active game mode. */
+  score: number;
+  /** Seconds connected to the server. */
+  duration: number;
+}
+
+export interface A2SRule {
+  name: string;
+  value: string;
+}
+
+/** One datagram of a response too large for a single packet. */
+export interface A2SSplitPacket {
+  /** Response id shared by every packet of the response. */
+  id: number;
+  /** Number of packets in the response. */
+  total: number;
+  /** 0-based position of this packet. */
+  number: number;
+  /** Whether the response is bzip2-compressed (high bit of the id). */
+  compressed: boolean;
+  /** Size of the decompressed response; only on packet 0 of a compressed response. */
+  decompressedSize?: number;
+  /** CRC32 of the decompressed response; only on packet 0 of a compressed response. */
+  crc32?: number;
+  payload: Buffer;
 }
 
 /* ─── Constants ─── */
@@ -36,11 +87,32 @@ export interface A2SInfoResponse {
 const HEADER = Buffer.from([0xff, 0xff, 0xff, 0xff]);
 const A2S_INFO_TYPE = 0x54;
 const A2S_INFO_PAYLOAD = "Source Engine Query\0";
+const A2S_PLAYER_TYPE = 0x55;
+const A2S_RULES_TYPE = 0x56;
+/** Challenge sent with the first A2S_PLAYER request to ask for a real one. */
+const NO_CHALLENGE = Buffer.from([0xff, 0xff, 0xff, 0xff]);
 
 // Response headers
 const S2A_INFO_SRC = 0x49; // Source engine response
+const S2A_PLAYER = 0x44; // Player list response
+const S2A_RULES = 0x45; // Rules response
 const S2C_CHALLENGE = 0x41; // Challenge response
 
+// Extra Data Flag bits of S2A_INFO_SRC, in the order their fields appear
+const EDF_PORT = 0x80;
+const EDF_STEAMID = 0x10;
+const EDF_SOURCETV = 0x40;
+const EDF_KEYWORDS = 0x20;
+const EDF_GAMEID = 0x01;
+
+// Packet headers
+const SIMPLE_HEADER = -1; // 0xFFFFFFFF, whole response in one datagram
+const SPLIT_HEADER = -2; // 0xFFFFFFFE, one part of a split response
+/** Header(4) + ID(4) + Total(1) + Number(1) + Size(2) */
+const SPLIT_PREFIX_LENGTH = 12;
+/** Largest decompressed split response accepted; real A2S replies are a few KB. */
+const MAX_DECOMPRESSED_SIZE = 1024 * 1024;
+
 const DEFAULT_TIMEOUT_MS = 3000;
 
 /* ─── Helpers ─── */
@@ -54,6 +126,16 @@ export function buildA2SInfoRequest(challenge?: Buffer): Buffer {
   return Buffer.concat([HEADER, Buffer.from([A2S_INFO_TYPE]), payload]);
 }
 
+/** Build the A2S_PLAYER request packet; without a challenge, asks the server for one. */
+export function buildA2SPlayerRequest(challenge: Buffer = NO_CHALLENGE): Buffer {
+  return Buffer.concat([HEADER, Buffer.from([A2S_PLAYER_TYPE]), challenge]);
+}
+
+/** Build the A2S_RULES request packet; without a challenge, asks the server for one. */
+export function buildA2SRulesRequest(challenge: Buffer = NO_CHALLENGE): Buffer {
+  return Buffer.concat([HEADER, Buffer.from([A2S_RULES_TYPE]), challenge]);
+}
+
 /** Read a null-terminated string from `buf` starting at `offset`. */
 function readString(buf: Buffer, offset: number): { value: string; next: number } {
   const end = buf.indexOf(0x00, offset);
@@ -106,8 +188,9 @@ export function parseA2SInfoResponse(buf: Buffer): A2SInfoResponse {
   offset += 1;
 
   const version = readString(buf, offset);
+  offset = version.next;
 
-  return {
+  const info: A2SInfoResponse = {
     protocol,
     hostname: hostname.value,
     map: map.value,
@@ -123,29 +206,247 @@ export function parseA2SInfoResponse(buf: Buffer): A2SInfoResponse {
     vac,
     version: version.value,
   };
+
+  // Older servers end the packet after the version string
+  if (offset >= buf.length) return info;
+  const edf = buf.readUInt8(offset);
+  offset += 1;
+
+  if (edf & EDF_PORT && offset + 2 <= buf.length) {
+    info.gamePort = buf.readUInt16LE(offset);
+    offset += 2;
+  }
+
+  if (edf & EDF_STEAMID && offset + 8 <= buf.length) {
+    info.steamId = buf.readBigUInt64LE(offset).toString();
+    offset += 8;
+  }
+
+  if (edf & EDF_SOURCETV && offset + 2 <= buf.length) {
+    info.sourceTvPort = buf.readUInt16LE(offset);
+    offset += 2;
+    const name = readString(buf, offset);
+    info.sourceTvName = name.value;
+    offset = name.next;
+  }
+
+  if (edf & EDF_KEYWORDS && offset < buf.length) {
+    const keywords = readString(buf, offset);
+    info.keywords = keywords.value;
+    offset = keywords.next;
+  }
+
+  if (edf & EDF_GAMEID && offset + 8 <= buf.length) {
+    info.gameId = buf.readBigUInt64LE(offset).toString();
+  }
+
+  return info;
+}
+
+/** Split A2S_INFO keywords (`sv_tags`) into trimmed, non-empty tags. */
+export function parseKeywords(keywords: string | undefined): string[] {
+  if (!keywords) return [];
+  return keywords
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/** Parse a raw S2A_PLAYER (0x44) response buffer into the player list. */
+export function parseA2SPlayerResponse(buf: Buffer): A2SPlayer[] {
+  // Skip the 4-byte header (0xFFFFFFFF) and the 1-byte type (0x44)
+  let offset = 5;
+
+  const count = buf.readUInt8(offset);
+  offset += 1;
+
+  const players: A2SPlayer[] = [];
+  // Stop early on a truncated packet rather than throwing on the last entry
+  for (let i = 0; i < count && offset < buf.length; i++) {
+    const index = buf.readUInt8(offset);
+    offset += 1;
+
+    const name = readString(buf, offset);
+    offset = name.next;
+
+    if (offset + 8 > buf.length) break;
+
+    const score = buf.readInt32LE(offset);
+    offset += 4;
+
+    const duration = buf.readFloatLE(offset);
+    offset += 4;
+
+    players.push({ index, name: name.value, score, duration });
+  }
+
+  return players;
+}
+
+/** Parse a raw S2A_RULES (0x45) response buffer into the list of rules. */
+export function parseA2SRulesResponse(buf: Buffer): A2SRule[] {
+  // Skip the 4-byte header (0xFFFFFFFF) and the 1-byte type (0x45)
+  let offset = 5;
+
+  const count = buf.readUInt16LE(offset);
+  offset += 2;
+
+  const rules: A2SRule[] = [];
+  for (let i = 0; i < count && offset < buf.length; i++) {
+    const name = readString(buf, offset);
+    offset = name.next;
+
+    const value = readString(buf, offset);
+    offset = value.next;
+
+    rules.push({ name: name.value, value: value.value });
+  }
+
+  return rules;
+}
+
+/** CRC-32 (IEEE) lookup table, one entry per byte value. */
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 of `buf`, as carried by compressed split responses.  Computed here
+ * because `zlib.crc32` only exists from Node 20.15.
+ */
+export function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buf) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Parse the Source engine split packet header (0xFFFFFFFE). */
+export function parseSplitPacket(buf: Buffer): A2SSplitPacket {
+  const rawId = buf.readUInt32LE(4);
+  const packet: A2SSplitPacket = {
+    id: rawId & 0x7fffffff,
+    total: buf.readUInt8(8),
+    number: buf.readUInt8(9),
+    compressed: (rawId & 0x80000000) !== 0,
+    payload: buf.subarray(SPLIT_PREFIX_LENGTH),
+  };
+
+  // The first packet of a compressed response also carries Size(4) + CRC32(4)
+  if (packet.compressed && packet.number === 0 && buf.length >= SPLIT_PREFIX_LENGTH + 8) {
+    packet.decompressedSize = buf.readUInt32LE(SPLIT_PREFIX_LENGTH);
+    packet.crc32 = buf.readUInt32LE(SPLIT_PREFIX_LENGTH + 4);
+    packet.payload = buf.subarray(SPLIT_PREFIX_LENGTH + 8);
+  }
+
+  return packet;
 }
 
 /**
- * Query a Source engine server for A2S_INFO data.
+ * Join the payloads of a complete split response in packet order,
+ * decompressing it if needed.  The result starts with the usual 0xFFFFFFFF
+ * header and parses like a single-packet response.
  *
- * Handles the challenge/response handshake automatically: if the server
- * replies with S2C_CHALLENGE (0x41), the request is re-sent with the
- * challenge token appended.
+ * Throws when parts are missing, duplicated or disagree on the response id
+ * or packet count, when a compressed response claims a decompressed size
+ * over 1 MB, and when it fails its size or CRC32 check.
  */
-export function queryA2SInfo(
+export function reassembleSplitPackets(packets: A2SSplitPacket[]): Buffer {
+  const ordered = [...packets].sort((a, b) => a.number - b.number);
+  const first = ordered[0];
+  if (!first) throw new Error("Split response has no packets");
+
+  for (const [i, part] of ordered.entries()) {
+    if (part.id !== first.id || part.total !== first.total || part.number !== i) {
+      throw new Error(`Split response ${first.id} has inconsistent packets`);
+    }
+  }
+  if (ordered.length !== first.total) {
+    throw new Error(`Split response ${first.id} has ${ordered.length} of ${first.total} packets`);
+  }
+
+  const joined = Buffer.concat(ordered.map((p) => p.payload));
+  if (!first.compressed) return joined;
+
+  if (first.decompressedSize === undefined || first.crc32 === undefined) {
+    throw new Error(`Compressed split response ${first.id} is missing its size and checksum`);
+  }
+  // The size comes from the server and sizes the output buffer, so cap it before decoding
+  if (first.decompressedSize > MAX_DECOMPRESSED_SIZE) {
+    throw new Error(
+      `Compressed split response ${first.id} is too large (${first.decompressedSize} bytes)`,
+    );
+  }
+  const response = Bunzip.decode(joined, first.decompressedSize);
+  if (response.length !== first.decompressedSize || crc32(response) !== first.crc32) {
+    throw new Error(`Compressed split response ${first.id} failed its checksum`);
+  }
+  return response;
+}
+
+/**
+ * Add A2S_PLAYER score and connection time to the players parsed from RCON
+ * `status`, matching by name.  A2S has no user id or SteamID, so players
+ * sharing a name are paired in order.  Players missing from the A2S reply
+ * are returned unchanged.
+ */
+export function mergeA2SPlayers(players: PlayerInfo[], a2sPlayers: A2SPlayer[]): PlayerInfo[] {
+  const byName = new Map<string, A2SPlayer[]>();
+  for (const entry of a2sPlayers) {
+    const list = byName.get(entry.name);
+    if (list) list.push(entry);
+    else byName.set(entry.name, [entry]);
+  }
+
+  return players.map((player) => {
+    const match = byName.get(player.name)?.shift();
+    if (!match) return player;
+    return { ...player, score: match.score, duration: Math.floor(match.duration) };
+  });
+}
+
+/** How to ask for, and read, one kind of A2S response. */
+interface A2SQuery<T> {
+  /** Query name used in error messages, e.g. "A2S_INFO". */
+  name: string;
+  /**
+   * Header byte of the response that completes the query; checked before
+   * the challenge is answered, so it may be S2C_CHALLENGE itself.
+   */
+  responseType: number;
+  /** Build the request, with the challenge token once the server sent one. */
+  buildRequest: (challenge?: Buffer) => Buffer;
+  parse: (buf: Buffer) => T;
+}
+
+/**
+ * UDP transport shared by every A2S query.
+ *
+ * Sends the request and answers S2C_CHALLENGE (0x41) by re-sending it with
+ * the 4-byte token appended.  Responses larger than one datagram arrive
+ * as split packets (0xFFFFFFFE); their parts are collected until all have
+ * arrived, then reassembled (and decompressed) before parsing.  Packets
+ * too short to carry a header, or with a packet number beyond their
+ * declared count, are ignored.
+ */
+function queryA2S<T>(
   host: string,
   port: number,
-  timeoutMs: number = DEFAULT_TIMEOUT_MS,
-): Promise<A2SInfoResponse> {
+  timeoutMs: number,
+  query: A2SQuery<T>,
+): Promise<T> {
   return new Promise((resolve, reject) => {
     const socket = dgram.createSocket("udp4");
     let settled = false;
+    /** Parts of the split response being received, by packet number. */
+    const parts = new Map<number, A2SSplitPacket>();
 
     const timer = setTimeout(() => {
       if (!settled) {
         settled = true;
         socket.close();
-        reject(new Error(`A2S_INFO query timed out after ${timeoutMs}ms`));
+        reject(new Error(`${query.name} query timed out after ${timeoutMs}ms`));
       }
     }, timeoutMs);
 
@@ -154,35 +455,30 @@ export function queryA2SInfo(
       socket.close();
     }
 
-    socket.on("error", (err) => {
+    function fail(err: Error) {
       if (!settled) {
         settled = true;
         cleanup();
         reject(err);
       }
-    });
+    }
 
-    socket.on("message", (msg) => {
-      if (msg.length < 5) return; // too short
+    function send(packet: Buffer) {
+      socket.send(packet, 0, packet.length, port, host);
+    }
 
-      const type = msg.readUInt8(4);
+    function handleResponse(msg: Buffer) {
+      if (msg.length < 5 || msg.readInt32LE(0) !== SIMPLE_HEADER) return;
 
-      if (type === S2C_CHALLENGE) {
-        // Server returned a challenge — resend with the 4-byte token
-        if (msg.length < 9) return;
-        const challenge = msg.subarray(5, 9);
-        const retryPacket = buildA2SInfoRequest(challenge);
-        socket.send(retryPacket, 0, retryPacket.length, port, host);
-        return;
-      }
+      const type = msg.readUInt8(4);
 
-      if (type === S2A_INFO_SRC) {
+      if (type === query.responseType) {
         if (!settled) {
           settled = true;
           try {
-            const info = parseA2SInfoResponse(msg);
+            const result = query.parse(msg);
             cleanup();
-            resolve(info);
+            resolve(result);
           } catch (err) {
             cleanup();
             reject(err);
@@ -190,9 +486,231 @@ export function queryA2SInfo(
         }
         return;
       }
+
+      if (type === S2C_CHALLENGE) {
+        // Server returned a challenge — resend with the 4-byte token
+        if (msg.length < 9) return;
+        send(query.buildRequest(msg.subarray(5, 9)));
+      }
+    }
+
+    function handleSplitPacket(msg: Buffer) {
+      if (msg.length < SPLIT_PREFIX_LENGTH) return;
+      const part = parseSplitPacket(msg);
+      if (part.total === 0 || part.number >= part.total) return;
+
+      // A new response id means the server restarted the reply; drop stale parts
+      const first = parts.values().next();
+      if (!first.done && first.value.id !== part.id) parts.clear();
+      parts.set(part.number, part);
+      if (parts.size < part.total) return;
+
+      let whole: Buffer;
+      try {
+        whole = reassembleSplitPackets([...parts.values()]);
+      } catch (err) {
+        fail(err as Error);
+        return;
+      } finally {
+        parts.clear();
+      }
+      handleResponse(whole);
+    }
+
+    socket.on("error", fail);
+
+    socket.on("message", (msg) => {
+      if (msg.length < 5) return; // too short
+
+      if (msg.readInt32LE(0) === SPLIT_HEADER) {
+        handleSplitPacket(msg);
+      } else {
+        handleResponse(msg);
+      }
+    });
+
+    send(query.buildRequest());
+  });
+}
+
+/**
+ * Query a Source engine server for A2S_INFO data.
+ *
+ * Newer servers answer the first request with S2C_CHALLENGE (0x41); the
+ * transport then re-sends it with the challenge token appended.
+ */
+export function queryA2SInfo(
+  host: string,
+  port: number,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): Promise<A2SInfoResponse> {
+  return queryA2S(host, port, timeoutMs, {
+    name: "A2S_INFO",
+    responseType: S2A_INFO_SRC,
+    buildRequest: buildA2SInfoRequest,
+    parse: parseA2SInfoResponse,
+  });
+}
+
+/**
+ * Query a Source engine server for its A2S_PLAYER list.
+ *
+ * Servers always answer the first request with S2C_CHALLENGE (0x41).
+ */
+export function queryA2SPlayer(
+  host: string,
+  port: number,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): Promise<A2SPlayer[]> {
+  return queryA2S(host, port, timeoutMs, {
+    name: "A2S_PLAYER",
+    responseType: S2A_PLAYER,
+    buildRequest: buildA2SPlayerRequest,
+    parse: parseA2SPlayerResponse,
+  });
+}
+
+/**
+ * Query a Source engine server for its A2S_RULES list (public cvars).
+ *
+ * Rule lists often exceed a single datagram, so this is the query that
+ * most often comes back as a split response.
+ */
+export function queryA2SRules(
+  host: string,
+  port: number,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): Promise<A2SRule[]> {
+  return queryA2S(host, port, timeoutMs, {
+    name: "A2S_RULES",
+    responseType: S2A_RULES,
+    buildRequest: buildA2SRulesRequest,
+    parse: parseA2SRulesResponse,
+  });
+}
+
+/**
+ * Measure the round-trip time to a Source engine server, in milliseconds.
+ *
+ * A2S_PING is not answered by CS2, so this sends an A2S_PLAYER request
+ * without a challenge instead: servers answer it straight away with
+ * S2C_CHALLENGE (0x41), a single small datagram.
+ */
+export async function queryA2SPing(
+  host: string,
+  port: number,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): Promise<number> {
+  const start = performance.now();
+  await queryA2S(host, port, timeoutMs, {
+    name: "A2S_PING",
+    responseType: S2C_CHALLENGE,
+    buildRequest: () => buildA2SPlayerRequest(),
+    parse: () => undefined,
+  });
+  return Math.round(performance.now() - start);
+}
+
+/** A server that answered an A2S_INFO broadcast. */
+export interface A2SDiscovered {
+  host: string;
+  port: number;
+  info: A2SInfoResponse;
+  /** Time from the broadcast to the answer, in milliseconds. */
+  pingMs: number;
+}
+
+export interface A2SDiscoveryOptions {
+  /** Broadcast addresses to send to, e.g. "192.168.1.255". */
+  addresses: string[];
+  /** Query ports to try on every address. */
+  ports: number[];
+  /** How long to collect answers; the scan always lasts this long. */
+  timeoutMs?: number;
+}
+
+/**
+ * Find servers on the local network by broadcasting A2S_INFO to every
+ * address and port, then collecting answers until `timeoutMs` runs out.
+ *
+ * Unlike the unicast queries, one socket talks to many servers, so each
+ * challenge is answered to the address it came from.  A server answering
+ * more than once (on several broadcast addresses) is listed once.
+ */
+export function discoverA2S({
+  addresses,
+  ports,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+}: A2SDiscoveryOptions): Promise<A2SDiscovered[]> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket("udp4");
+    const found = new Map<string, A2SDiscovered>();
+    let start = 0;
+    let timer: NodeJS.Timeout | undefined;
+
+    socket.on("error", (err) => {
+      clearTimeout(timer);
+      socket.close();
+      reject(err);
+    });
+
+    socket.on("message", (msg, rinfo) => {
+      if (msg.length < 5 || msg.readInt32LE(0) !== SIMPLE_HEADER) return;
+
+      const type = msg.readUInt8(4);
+      if (type === S2C_CHALLENGE) {
+        if (msg.length < 9) return;
+        const retry = buildA2SInfoRequest(msg.subarray(5, 9));
+        socket.send(retry, 0, retry.length, rinfo.port, rinfo.address);
+        return;
+      }
+      if (type !== S2A_INFO_SRC) return;
+
+      const key = `${rinfo.address}:${rinfo.port}`;
+      if (found.has(key)) return;
+      try {
+        found.set(key, {
+          host: rinfo.address,
+          port: rinfo.port,
+          info: parseA2SInfoResponse(msg),
+          pingMs: Math.round(performance.now() - start),
+        });
+      } catch {
+        // Not a well-formed answer; whatever sent it is not listed
+      }
     });
 
-    const packet = buildA2SInfoRequest();
-    socket.send(packet, 0, packet.length, port, host);
+    socket.bind(() => {
+      socket.setBroadcast(true);
+      start = performance.now();
+      const packet = buildA2SInfoRequest();
+      for (const address of addresses) {
+        for (const port of ports) {
+          socket.send(packet, 0, packet.length, port, address);
+        }
+      }
+      timer = setTimeout(() => {
+        socket.close();
+        resolve([...found.values()]);
+      }, timeoutMs);
+    });
   });
 }
+
+/**
+ * Parse a port list such as "27015-27030" or "27015,27016,27020-27022".
+ * Throws on anything that is not a valid port or range.
+ */
+export function parsePortList(spec: string): number[] {
+  const ports = new Set<number>();
+  for (const part of spec.split(",")) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    const first = match ? Number(match[1]) : NaN;
+    const last = match?.[2] !== undefined ? Number(match[2]) : first;
+    if (!(first >= 1 && last <= 65535 && first <= last)) {
+      throw new Error(`Invalid port or range: "${part.trim()}"`);
+    }
+    for (let port = first; port <= last; port++) ports.add(port);
+  }
+  return [...ports];
+}
@@ -1,5 +1,30 @@
-import { describe, it, expect, vi } from "vitest";
-import { send, normalizeIp, resolveHostIps, type ServerMessage } from "./index.js";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  RconAuthError,
+  RconBannedError,
+  RconConnectionRefusedError,
+  RconTimeoutError,
+} from "@cs2-rcon/rcon";
+import { FakeRconServer } from "@cs2-rcon/rcon/testing";
+import { discoverA2S, queryA2SInfo, queryA2SPing, queryA2SRules } from "./a2s.js";
+import type { A2SInfoResponse } from "./a2s.js";
+import {
+  buildApp,
+  send,
+  normalizeIp,
+  resolveHostIps,
+  toErrorCode,
+  toRconHealth,
+  type ServerMessage,
+} from "./index.js";
+
+vi.mock("./a2s.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./a2s.js")>()),
+  queryA2SInfo: vi.fn(),
+  queryA2SPing: vi.fn(),
+  queryA2SRules: vi.fn(),
+  discoverA2S: vi.fn(),
+}));
 
 // ---------------------------------------------------------------------------
 // send() helper
@@ -48,8 +73,9 @@ describe("send", () => {
   it("serialises log_event messages", () => {
     const ws = { send: vi.fn() };
     const event = {
+      kind: "other" as const,
       timestamp: "03/01/2024 - 12:34:56",
-      category: "kill" as const,
+      category: "other" as const,
       message: "Player killed Victim with ak47",
       raw: 'L 03/01/2024 - 12:34:56: "Player" killed "Victim" with "ak47"',
     };
@@ -59,7 +85,7 @@ describe("send", () => {
 
     const parsed = JSON.parse(ws.send.mock.calls[0][0]);
     expect(parsed.type).toBe("log_event");
-    expect(parsed.event.category).toBe("kill");
+    expect(parsed.event.kind).toBe("other");
     expect(parsed.event.message).toBe("Player killed Victim with ak47");
   });
 
@@ -80,6 +106,91 @@ describe("send", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// toErrorCode()
+// ---------------------------------------------------------------------------
+
+describe("toErrorCode", () => {
+  it("maps RCON client errors to distinct codes", () => {
+    expect(toErrorCode(new RconAuthError())).toBe("auth_failed");
+    expect(toErrorCode(new RconBannedError())).toBe("banned");
+    expect(toErrorCode(new RconConnectionRefusedError("ECONNREFUSED"))).toBe("connection_refused");
+    expect(toErrorCode(new RconTimeoutError("Command timed out", 10_000))).toBe("timeout");
+  });
+
+  it("falls back to unknown for other errors", () => {
+    expect(toErrorCode(new Error("EHOSTUNREACH"))).toBe("unknown");
+    expect(toErrorCode("no host")).toBe("unknown");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// toRconHealth()
+// ---------------------------------------------------------------------------
+
+describe("toRconHealth", () => {
+  it("rounds latency and converts uptime to seconds", () => {
+    const health = toRconHealth(
+      {
+        commands: 3,
+        timeouts: 1,
+        errors: 2,
+        bytesSent: 300,
+        bytesReceived: 9_000,
+        latency: {
+          count: 3,
+          minMs: 12,
+          maxMs: 180,
+          meanMs: 64.4,
+          p50Ms: 25,
+          p95Ms: 180,
+          histogram: [],
+        },
+        connectedAt: 1_000,
+        uptimeMs: 90_750,
+      },
+      { queueDepth: 4, inFlightCount: 1 },
+    );
+
+    expect(health).toEqual({
+      latencyMs: 64,
+      p95LatencyMs: 180,
+      timeouts: 1,
+      errors: 2,
+      uptimeSeconds: 90,
+      queued: 4,
+      inFlight: 1,
+    });
+  });
+
+  it("keeps latency null before any command was answered", () => {
+    const health = toRconHealth(
+      {
+        commands: 0,
+        timeouts: 0,
+        errors: 0,
+        bytesSent: 0,
+        bytesReceived: 0,
+        latency: {
+          count: 0,
+          minMs: null,
+          maxMs: null,
+          meanMs: null,
+          p50Ms: null,
+          p95Ms: null,
+          histogram: [],
+        },
+        connectedAt: null,
+        uptimeMs: 0,
+      },
+      { queueDepth: 0, inFlightCount: 0 },
+    );
+
+    expect(health.latencyMs).toBeNull();
+    expect(health.p95LatencyMs).toBeNull();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // normalizeIp()
 // ---------------------------------------------------------------------------
@@ -120,3 +231,348 @@ describe("resolveHostIps", () => {
     expect(ips.has("192.168.1.50")).toBe(true);
   });
 });
+
+// ---------------------------------------------------------------------------
+// GET /api/probe
+// ---------------------------------------------------------------------------
+
+describe("GET /api/probe", () => {
+  const info = {
+    hostname: "Probe Server",
+    map: "de_nuke",
+    players: 3,
+    maxPlayers: 10,
+    bots: 1,
+  } as A2SInfoResponse;
+
+  async function probe(query: string) {
+    const app = await buildApp();
+    try {
+      return await app.inject({ method: "GET", url: `/api/probe?${query}` });
+    } finally {
+      await app.close();
+    }
+  }
+
+  it("returns the A2S_INFO summary and ping", async () => {
+    vi.mocked(queryA2SInfo).mockResolvedValueOnce(info);
+    vi.mocked(queryA2SPing).mockResolvedValueOnce(23);
+
+    const res = await probe("host=10.0.0.5&port=27016");
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({
+      host: "10.0.0.5",
+      port: 27016,
+      hostname: "Probe Server",
+      map: "de_nuke",
+      players: 3,
+      maxPlayers: 10,
+      bots: 1,
+      pingMs: 23,
+    });
+    expect(queryA2SInfo).toHaveBeenCalledWith("10.0.0.5", 27016, 2000);
+  });
+
+  it("reports a null ping when only the ping goes unanswered", async () => {
+    vi.mocked(queryA2SInfo).mockResolvedValueOnce(info);
+    vi.mocked(queryA2SPing).mockRejectedValueOnce(new Error("A2S_PING query timed out"));
+
+    const res = await probe("host=10.0.0.5");
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toMatchObject({ port: 27015, pingMs: null });
+  });
+
+  it("answers 502 when the server does not respond", async () => {
+    vi.mocked(queryA2SInfo).mockRejectedValueOnce(new Error("A2S_INFO query timed out"));
+    vi.mocked(queryA2SPing).mockRejectedValueOnce(new Error("A2S_PING query timed out"));
+
+    const res = await probe("host=10.0.0.5&port=27015");
+
+    expect(res.statusCode).toBe(502);
+    expect(res.json().error).toContain("timed out");
+  });
+
+  it("rejects invalid addresses without querying", async () => {
+    vi.mocked(queryA2SInfo).mockClear();
+
+    expect((await probe("host=bad;host&port=27015")).statusCode).toBe(400);
+    expect((await probe("host=10.0.0.5&port=70000")).statusCode).toBe(400);
+    expect((await probe("host=10.0.0.5&port=27015abc")).statusCode).toBe(400);
+    expect((await probe("port=27015")).statusCode).toBe(400);
+    expect(queryA2SInfo).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/browse
+// ---------------------------------------------------------------------------
+
+describe("POST /api/browse", () => {
+  async function browse(payload: unknown) {
+    const app = await buildApp();
+    try {
+      return await app.inject({ method: "POST", url: "/api/browse", payload: payload as object });
+    } finally {
+      await app.close();
+    }
+  }
+
+  it("probes every server and reports each one as online or offline, in order", async () => {
+    vi.mocked(queryA2SInfo).mockImplementation(async (host) => {
+      if (host === "10.0.0.2") throw new Error("A2S_INFO query timed out after 2000ms");
+      return {
+        hostname: `srv ${host}`,
+        map: "de_dust2",
+        players: 1,
+        maxPlayers: 10,
+        bots: 0,
+      } as A2SInfoResponse;
+    });
+    vi.mocked(queryA2SPing).mockResolvedValue(15);
+
+    const res = await browse({
+      servers: [
+        { host: "10.0.0.1", port: 27015 },
+        { host: "10.0.0.2", port: "27016" },
+        { host: "bad host", port: 27015 },
+      ],
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual([
+      {
+        online: true,
+        host: "10.0.0.1",
+        port: 27015,
+        hostname: "srv 10.0.0.1",
+        map: "de_dust2",
+        players: 1,
+        maxPlayers: 10,
+        bots: 0,
+        pingMs: 15,
+      },
+      {
+        online: false,
+        host: "10.0.0.2",
+        port: 27016,
+        error: "A2S_INFO query timed out after 2000ms",
+      },
+      { online: false, host: "bad host", port: 27015, error: "Invalid host or port" },
+    ]);
+    vi.mocked(queryA2SInfo).mockReset();
+    vi.mocked(queryA2SPing).mockReset();
+  });
+
+  it("rejects a missing or oversized server list", async () => {
+    expect((await browse({})).statusCode).toBe(400);
+    const servers = Array.from({ length: 65 }, () => ({ host: "10.0.0.1", port: 27015 }));
+    expect((await browse({ servers })).statusCode).toBe(400);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/discover
+// ---------------------------------------------------------------------------
+
+describe("GET /api/discover", () => {
+  afterEach(() => {
+    vi.mocked(discoverA2S).mockReset();
+  });
+
+  function found(host: string, hostname: string) {
+    return {
+      host,
+      port: 27015,
+      info: { hostname, map: "de_dust2", players: 2, maxPlayers: 10, bots: 0 } as A2SInfoResponse,
+      pingMs: 4,
+    };
+  }
+
+  it("broadcasts to the default LAN targets and lists answers by hostname", async () => {
+    vi.mocked(discoverA2S).mockResolvedValueOnce([
+      found("192.168.1.20", "Zulu"),
+      found("192.168.1.10", "alpha"),
+    ]);
+    const app = await buildApp();
+
+    try {
+      const res = await app.inject({ method: "GET", url: "/api/discover" });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.json()).toEqual([
+        {
+          host: "192.168.1.10",
+          port: 27015,
+          hostname: "alpha",
+          map: "de_dust2",
+          players: 2,
+          maxPlayers: 10,
+          bots: 0,
+          pingMs: 4,
+        },
+        expect.objectContaining({ host: "192.168.1.20", hostname: "Zulu" }),
+      ]);
+      const options = vi.mocked(discoverA2S).mock.calls[0][0];
+      expect(options.addresses).toEqual(["255.255.255.255"]);
+      expect(options.ports).toHaveLength(16);
+      expect(options.ports[0]).toBe(27015);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("shares one scan between concurrent requests", async () => {
+    vi.mocked(discoverA2S).mockResolvedValueOnce([found("192.168.1.10", "alpha")]);
+    const app = await buildApp();
+
+    try {
+      const [a, b] = await Promise.all([
+        app.inject({ method: "GET", url: "/api/discover" }),
+        app.inject({ method: "GET", url: "/api/discover" }),
+      ]);
+
+      expect(a.json()).toEqual(b.json());
+      expect(discoverA2S).toHaveBeenCalledOnce();
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("answers 500 when the broadcast fails", async () => {
+    vi.mocked(discoverA2S).mockRejectedValueOnce(new Error("EACCES"));
+    const app = await buildApp();
+
+    try {
+      const res = await app.inject({ method: "GET", url: "/api/discover" });
+
+      expect(res.statusCode).toBe(500);
+      expect(res.json().error).toBe("LAN discovery failed: EACCES");
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WebSocket: request_rules
+// ---------------------------------------------------------------------------
+
+describe("WS request_rules", () => {
+  type Ws = Awaited<ReturnType<Awaited<ReturnType<typeof buildApp>>["injectWS"]>>;
+
+  afterEach(() => {
+    vi.mocked(queryA2SRules).mockReset();
+  });
+
+  /** Resolve with the next message of `type` the backend sends. */
+  function nextMessage(ws: Ws, type: string): Promise<Record<string, unknown>> {
+    return new Promise((resolve) => {
+      const onMessage = (data: Buffer) => {
+        const msg = JSON.parse(data.toString());
+        if (msg.type === type) {
+          ws.off("message", onMessage);
+          resolve(msg);
+        }
+      };
+      ws.on("message", onMessage);
+    });
+  }
+
+  /** Open a socket on a fresh app, send `message` and return the first reply of type `reply`. */
+  async function exchange(message: object, reply: string) {
+    const app = await buildApp();
+    await app.ready();
+    const ws = await app.injectWS("/ws");
+    try {
+      const response = nextMessage(ws, reply);
+      ws.send(JSON.stringify(message));
+      return await response;
+    } finally {
+      ws.terminate();
+      await app.close();
+    }
+  }
+
+  it("replies with the server's rules sorted by name", async () => {
+    vi.mocked(queryA2SRules).mockResolvedValueOnce([
+      { name: "sv_cheats", value: "0" },
+      { name: "mp_maxrounds", value: "24" },
+    ]);
+
+    const msg = await exchange(
+      { type: "request_rules", host: "10.0.0.5", port: "27016" },
+      "server_rules",
+    );
+
+    expect(msg).toEqual({
+      type: "server_rules",
+      host: "10.0.0.5",
+      port: 27016,
+      rules: [
+        { name: "mp_maxrounds", value: "24" },
+        { name: "sv_cheats", value: "0" },
+      ],
+    });
+    expect(queryA2SRules).toHaveBeenCalledWith("10.0.0.5", 27016, 3000);
+  });
+
+  it("queries the connected server when no address is given", async () => {
+    vi.mocked(queryA2SRules).mockResolvedValueOnce([{ name: "sv_cheats", value: "0" }]);
+    const server = new FakeRconServer({ password: "pw" });
+    const port = await server.listen();
+    const app = await buildApp();
+    await app.ready();
+    const ws = await app.injectWS("/ws");
+
+    try {
+      const connected = nextMessage(ws, "connected");
+      ws.send(
+        JSON.stringify({ type: "connect", host: "127.0.0.1", port: String(port), password: "pw" }),
+      );
+      await connected;
+
+      const rules = nextMessage(ws, "server_rules");
+      ws.send(JSON.stringify({ type: "request_rules" }));
+
+      expect(await rules).toMatchObject({ host: "127.0.0.1", port });
+      expect(queryA2SRules).toHaveBeenCalledWith("127.0.0.1", port, 3000);
+    } finally {
+      ws.terminate();
+      await app.close();
+      await server.close();
+    }
+  });
+
+  it("needs an address when not connected", async () => {
+    const msg = await exchange({ type: "request_rules" }, "error");
+
+    expect(msg.message).toBe("No server to query: connect or give a host and port");
+    expect(queryA2SRules).not.toHaveBeenCalled();
+  });
+
+  it("rejects an invalid address", async () => {
+    const msg = await exchange({ type: "request_rules", host: "bad;host", port: "27015" }, "error");
+
+    expect(msg.message).toBe("Invalid host or port");
+  });
+
+  it("rejects a port with trailing garbage", async () => {
+    const msg = await exchange(
+      { type: "request_rules", host: "10.0.0.5", port: "27015abc" },
+      "error",
+    );
+
+    expect(msg.message).toBe("Invalid host or port");
+    expect(queryA2SRules).not.toHaveBeenCalled();
+  });
+
+  it("reports a query that goes unanswered", async () => {
+    vi.mocked(queryA2SRules).mockRejectedValueOnce(new Error("A2S_RULES query timed out"));
+
+    const msg = await exchange({ type: "request_rules", host: "10.0.0.5", port: "27015" }, "error");
+
+    expect(msg.message).toBe("Rules query failed: A2S_RULES query timed out");
+  });
+});
@@ -4,17 +4,31 @@ import dns from "node:dns/promises";
 import Fastify from "fastify";
 import fastifyStatic from "@fastify/static";
 import fastifyWebSocket from "@fastify/websocket";
-import { RconClient } from "@cs2-rcon/rcon";
+import { RconError } from "@cs2-rcon/rcon";
+import type { RconClient, RconErrorCode, RconStats } from "@cs2-rcon/rcon";
 import { parseStatus, parseStats } from "./parsers.js";
 import type { ServerInfo, PlayerInfo } from "./parsers.js";
-import { queryA2SInfo } from "./a2s.js";
+import { discoverA2S, mergeA2SPlayers, parseKeywords, parsePortList } from "./a2s.js";
+import { A2SCache } from "./a2s-cache.js";
 import { LogReceiver } from "./log-receiver.js";
+import { RconPool } from "./rcon-pool.js";
+import type { RconLease } from "./rcon-pool.js";
 import type { LogMessage } from "./log-receiver.js";
-import type { LogEvent } from "@cs2-rcon/shared";
+import type {
+  ErrorCode,
+  LogEvent,
+  RconHealth,
+  ServerProbe,
+  ServerProbeResult,
+  ServerRule,
+} from "@cs2-rcon/shared";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const PORT = Number(process.env.PORT) || 3000;
 const LOG_PORT = process.env.LOG_PORT ? Number(process.env.LOG_PORT) : 0;
+const DEMO = process.env.DEMO === "1";
+const DEMO_RCON_PORT = Number(process.env.DEMO_RCON_PORT) || 27015;
+const DEMO_RCON_PASSWORD = process.env.DEMO_RCON_PASSWORD || "demo";
 
 /**
  * Strict IPv4: each octet validated to 0-255.
@@ -52,6 +66,40 @@ const LOG_ADDRESS = (() => {
   return raw;
 })();
 
+/** Upper bound on broadcast address × port pairs of one LAN scan. */
+const MAX_LAN_TARGETS = 256;
+
+/**
+ * Where LAN discovery broadcasts A2S_INFO: `LAN_BROADCAST` is a
+ * comma-separated list of IPv4 broadcast addresses, `LAN_PORTS` a list of
+ * ports and ranges.  Invalid settings disable discovery.
+ */
+const LAN_DISCOVERY = (() => {
+  const rawAddresses = process.env.LAN_BROADCAST || "255.255.255.255";
+  const rawPorts = process.env.LAN_PORTS || "27015-27030";
+  const addresses = rawAddresses.split(",").map((a) => a.trim());
+  let ports: number[];
+  try {
+    ports = parsePortList(rawPorts);
+  } catch (err) {
+    console.error(`[LAN] Invalid LAN_PORTS: ${(err as Error).message}. LAN discovery disabled.`);
+    return null;
+  }
+  if (!addresses.every((a) => IPV4_RE.test(a))) {
+    console.error(
+      `[LAN] Invalid LAN_BROADCAST "${rawAddresses}" — must be IPv4 addresses. LAN discovery disabled.`,
+    );
+    return null;
+  }
+  if (addresses.length * ports.length > MAX_LAN_TARGETS) {
+    console.error(
+      `[LAN] LAN_BROADCAST × LAN_PORTS exceeds ${MAX_LAN_TARGETS} targets. LAN discovery disabled.`,
+    );
+    return null;
+  }
+  return { addresses, ports };
+})();
+
 const IPV4_MAPPED_PREFIX = "::ffff:";
 
 /**
@@ -97,9 +145,52 @@ const ENV_MAP: Record<string, string> = {
   o: "Mac",
 };
 
+const ERROR_CODE_MAP: Record<RconErrorCode, ErrorCode> = {
+  AUTH_FAILED: "auth_failed",
+  BANNED: "banned",
+  CONNECTION_REFUSED: "connection_refused",
+  CONNECTION_CLOSED: "connection_closed",
+  NOT_CONNECTED: "not_connected",
+  QUEUE_FULL: "queue_full",
+  TIMEOUT: "timeout",
+  ABORTED: "aborted",
+};
+
+/** Map an error thrown by the RCON client to the code sent to the browser. */
+export function toErrorCode(err: unknown): ErrorCode {
+  return err instanceof RconError ? ERROR_CODE_MAP[err.code] : "unknown";
+}
+
+/**
+ * Condense RCON client statistics and the current command queue into the
+ * health figures shown next to FPS and CPU.
+ */
+export function toRconHealth(
+  stats: RconStats,
+  queue: Pick<RconClient, "queueDepth" | "inFlightCount">,
+): RconHealth {
+  const round = (ms: number | null) => (ms === null ? null : Math.round(ms));
+  return {
+    latencyMs: round(stats.latency.meanMs),
+    p95LatencyMs: round(stats.latency.p95Ms),
+    timeouts: stats.timeouts,
+    errors: stats.errors,
+    uptimeSeconds: Math.floor(stats.uptimeMs / 1000),
+    queued: queue.queueDepth,
+    inFlight: queue.inFlightCount,
+  };
+}
+
 /** JSON messages sent from the browser to the server. */
 export interface ClientMessage {
-  type: "connect" | "command" | "disconnect" | "request_status" | "enable_logs" | "disable_logs";
+  type:
+    | "connect"
+    | "command"
+    | "disconnect"
+    | "request_status"
+    | "request_rules"
+    | "enable_logs"
+    | "disable_logs";
   host?: string;
   port?: string;
   password?: string;
@@ -111,9 +202,10 @@ export type ServerMessage =
   | { type: "connected"; message: string }
   | { type: "disconnected" }
   | { type: "response"; command: string; body: string }
-  | { type: "error"; message: string }
+  | { type: "error"; message: string; code?: ErrorCode }
   | { type: "server_status"; server: Partial<ServerInfo> }
   | { type: "player_list"; players: PlayerInfo[] }
+  | { type: "server_rules"; host: string; port: number; rules: ServerRule[] }
   | { type: "log_event"; event: LogEvent }
   | { type: "log_streaming"; enabled: boolean; message: string };
 
@@ -133,10 +225,62 @@ function logRefKey(host: string, port: number): string {
   return `${host}:${port}`;
 }
 
-/** Create and configure the Fastify app (without starting it). */
-export async function buildApp(logReceiver?: LogReceiver) {
+/** Whether `host` and `port` are safe to query: a valid address and a port in range. */
+function isValidTarget(host: string, port: number): boolean {
+  return isValidLogAddress(host) && Number.isInteger(port) && port >= 1 && port <= 65535;
+}
+
+/** Most servers a single `POST /api/browse` may ask about. */
+const MAX_BROWSE_SERVERS = 64;
+
+/**
+ * Query A2S_INFO and the ping of `host:port` together.  Rejects when the
+ * server does not answer A2S_INFO; an unanswered ping only leaves
+ * `pingMs` null.
+ */
+export async function probeServer(
+  host: string,
+  port: number,
+  cache: A2SCache,
+): Promise<ServerProbe> {
+  const [info, ping] = await Promise.allSettled([
+    cache.info(host, port, 2000),
+    cache.ping(host, port, 2000),
+  ]);
+  if (info.status === "rejected") {
+    throw info.reason;
+  }
+
+  return {
+    host,
+    port,
+    hostname: info.value.hostname,
+    map: info.value.map,
+    players: info.value.players,
+    maxPlayers: info.value.maxPlayers,
+    bots: info.value.bots,
+    pingMs: ping.status === "fulfilled" ? ping.value : null,
+  };
+}
+
+/**
+ * Create and configure the Fastify app (without starting it).
+ *
+ * All browsers share RCON connections through `rconPool`, so the number of
+ * sessions on a game server does not grow with the number of open tabs.
+ * A2S queries go through `a2sCache` for the same reason.
+ */
+export async function buildApp(
+  logReceiver?: LogReceiver,
+  rconPool: RconPool = new RconPool(),
+  a2sCache: A2SCache = new A2SCache(),
+) {
   const app = Fastify({ logger: false });
 
+  app.addHook("onClose", async () => {
+    rconPool.close();
+  });
+
   // Serve the Vite-built renderer output
   const rendererDist = path.resolve(__dirname, "..", "..", "renderer", "dist");
   await app.register(fastifyStatic, {
@@ -145,12 +289,119 @@ export async function buildApp(logReceiver?: LogReceiver) {
 
   await app.register(fastifyWebSocket);
 
+  // Lets the connection form show what answers at an address before the
+  // user has typed a password.  A2S only, so no RCON session is opened.
+  app.get<{ Querystring: { host?: string; port?: string } }>("/api/probe", async (req, reply) => {
+    const host = req.query.host?.trim() ?? "";
+    const port = req.query.port ? Number(req.query.port) : 27015;
+
+    if (!isValidTarget(host, port)) {
+      return reply.code(400).send({ error: "Invalid host or port" });
+    }
+
+    try {
+      return await probeServer(host, port, a2sCache);
+    } catch (err) {
+      return reply.code(502).send({ error: `No response: ${(err as Error).message}` });
+    }
+  });
+
+  // LAN discovery: broadcasts A2S_INFO and lists whatever answers.  Scans
+  // requested while one is running share its result.
+  let lanScan: Promise<ServerProbe[]> | null = null;
+  app.get("/api/discover", async (_req, reply) => {
+    if (!LAN_DISCOVERY) {
+      return reply
+        .code(503)
+        .send({ error: "LAN discovery is disabled (check LAN_BROADCAST and LAN_PORTS)" });
+    }
+
+    lanScan ??= discoverA2S({ ...LAN_DISCOVERY, timeoutMs: 2000 })
+      .then((found) =>
+        found
+          .map(({ host, port, info, pingMs }) => ({
+            host,
+            port,
+            hostname: info.hostname,
+            map: info.map,
+            players: info.players,
+            maxPlayers: info.maxPlayers,
+            bots: info.bots,
+            pingMs,
+          }))
+          .sort((a, b) => a.hostname.localeCompare(b.hostname)),
+      )
+      .finally(() => {
+        lanScan = null;
+      });
+
+    try {
+      return await lanScan;
+    } catch (err) {
+      return reply.code(500).send({ error: `LAN discovery failed: ${(err as Error).message}` });
+    }
+  });
+
+  // Server browser: probes a whole list of saved servers in one request.
+  // Every server gets an entry, in request order, whether it answered or not.
+  app.post<{ Body: { servers?: { host?: unknown; port?: unknown }[] } }>(
+    "/api/browse",
+    async (req, reply) => {
+      const servers = req.body?.servers;
+      if (!Array.isArray(servers) || servers.length > MAX_BROWSE_SERVERS) {
+        return reply
+          .code(400)
+          .send({ error: `Expected a list of at most ${MAX_BROWSE_SERVERS} servers` });
+      }
+
+      const results = await Promise.all(
+        servers.map(async (server): Promise<ServerProbeResult> => {
+          const host = typeof server?.host === "string" ? server.host.trim() : "";
+          const port = Number(server?.port ?? 27015);
+          if (!isValidTarget(host, port)) {
+            return { online: false, host, port, error: "Invalid host or port" };
+          }
+          try {
+            return { online: true, ...(await probeServer(host, port, a2sCache)) };
+          } catch (err) {
+            return { online: false, host, port, error: (err as Error).message };
+          }
+        }),
+      );
+      return results;
+    },
+  );
+
   app.get("/ws", { websocket: true }, (socket) => {
+    let lease: RconLease | null = null;
     let rcon: RconClient | null = null;
     let rconHost: string | null = null;
     let rconPort: number | null = null;
     let logListener: ((msg: LogMessage) => void) | null = null;
     let logServerKey: string | null = null;
+    /** Aborted when the browser goes away, cancelling its in-flight RCON work. */
+    const abort = new AbortController();
+
+    const onRconDisconnect = () => {
+      send(socket, { type: "disconnected" });
+    };
+    const onRconReconnected = () => {
+      send(socket, { type: "connected", message: `Reconnected to ${rconHost}:${rconPort}` });
+    };
+    const onRconError = (err: Error) => {
+      send(socket, { type: "error", message: err.message });
+    };
+
+    /** Detach this browser from its pooled RCON connection. */
+    function releaseRcon() {
+      if (lease) {
+        lease.release();
+        lease = null;
+      }
+      rcon = null;
+      rconHost = null;
+      rconPort = null;
+    }
 
     /** Remove the current log listener and decrement the ref count.
      *  When the last subscriber for a server is removed, sends
@@ -202,23 +453,25 @@ export async function buildApp(logReceiver?: LogReceiver) {
           // Clean up previous log listener if switching servers
           cleanupLogListener();
 
-          // Disconnect previous connection if any
-          if (rcon) {
-            rcon.disconnect();
-          }
-
-          rcon = new RconClient();
-
-          rcon.on("disconnect", () => {
-            send(socket, { type: "disconnected" });
-          });
-
-          rcon.on("error", (err: Error) => {
-            send(socket, { type: "error", message: err.message });
-          });
+          // Release the previous connection if any
+          releaseRcon();
 
           try {
-            await rcon.connect(host, parseInt(port, 10), password);
+            const acquired = await rconPool.acquire(host, parseInt(port, 10), password, {
+              disconnect: onRconDisconnect,
+              reconnected: onRconReconnected,
+              error: onRconError,
+            });
+            // The browser may have gone away while the connection was
+            // being established.
+            if (abort.signal.aborted) {
+              acquired.release();
+              break;
+            }
+            // Drop any lease a concurrent "connect" obtained in the meantime.
+            releaseRcon();
+            lease = acquired;
+            rcon = acquired.client;
             rconHost = host;
             rconPort = parseInt(port, 10);
             send(socket, {
@@ -230,10 +483,8 @@ export async function buildApp(logReceiver?: LogReceiver) {
             send(socket, {
               type: "error",
               message: `Connection failed: ${(err as Error).message}`,
+              code: toErrorCode(err),
             });
-            rcon = null;
-            rconHost = null;
-            rconPort = null;
           }
           break;
         }
@@ -245,6 +496,7 @@ export async function buildApp(logReceiver?: LogReceiver) {
             return send(socket, {
               type: "error",
               message: "Not connected to any server",
+              code: "not_connected",
             });
           }
 
@@ -256,7 +508,7 @@ export async function buildApp(logReceiver?: LogReceiver) {
           }
 
           try {
-            const response = await rcon.execute(command.trim());
+            const response = await rcon.execute(command.trim(), { signal: abort.signal });
             send(socket, {
               type: "response",
               command: command.trim(),
@@ -267,18 +519,14 @@ export async function buildApp(logReceiver?: LogReceiver) {
             send(socket, {
               type: "error",
               message: `Command failed: ${(err as Error).message}`,
+              code: toErrorCode(err),
             });
           }
           break;
         }
 
         case "disconnect": {
-          if (rcon) {
-            rcon.disconnect();
-            rcon = null;
-            rconHost = null;
-            rconPort = null;
-          }
+          releaseRcon();
           send(socket, { type: "disconnected" });
           break;
         }
@@ -288,22 +536,31 @@ export async function buildApp(logReceiver?: LogReceiver) {
             return send(socket, {
               type: "error",
               message: "Not connected to any server",
+              code: "not_connected",
             });
           }
 
           try {
-            // Run A2S_INFO (UDP), RCON status (for player list), and
-            // RCON stats (for FPS/CPU) in parallel.  A2S provides more
-            // reliable static info; if it fails we fall back to RCON.
-            const [a2sResult, statusResponse, statsResponse] = await Promise.allSettled([
-              rconHost ? queryA2SInfo(rconHost, rconPort!, 3000) : Promise.reject("no host"),
-              rcon.execute("status"),
-              rcon.execute("stats"),
-            ]);
-
-            // Player list always comes from RCON status
+            // Run A2S_INFO and A2S_PLAYER (UDP), RCON status (for player
+            // list), and RCON stats (for FPS/CPU) in parallel.  A2S provides
+            // more reliable static info; if it fails we fall back to RCON.
+            // The two RCON commands are serialized by RconClient's queue.
+            const [a2sResult, a2sPlayersResult, statusResponse, statsResponse] =
+              await Promise.allSettled([
+                rconHost ? a2sCache.info(rconHost, rconPort!, 3000) : Promise.reject("no host"),
+                rconHost ? a2sCache.players(rconHost, rconPort!, 3000) : Promise.reject("no host"),
+                rcon.execute("status", { signal: abort.signal }),
+                rcon.execute("stats", { signal: abort.signal }),
+              ]);
+
+            // Player list comes from RCON status, with score and connection
+            // time added from A2S_PLAYER when available
             const statusValue = statusResponse.status === "fulfilled" ? statusResponse.value : "";
-            const { server: rconServer, players } = parseStatus(statusValue || "");
+            const { server: rconServer, players: statusPlayers } = parseStatus(statusValue || "");
+            const players =
+              a2sPlayersResult.status === "fulfilled"
+                ? mergeA2SPlayers(statusPlayers, a2sPlayersResult.value)
+                : statusPlayers;
 
             // FPS / CPU from RCON stats
             const statsValue = statsResponse.status === "fulfilled" ? statsResponse.value : "";
@@ -326,10 +583,17 @@ export async function buildApp(logReceiver?: LogReceiver) {
                 secure: a2s.vac,
                 fps,
                 cpu,
+                gamePort: a2s.gamePort,
+                steamId: a2s.steamId,
+                tvPort: a2s.sourceTvPort,
+                tvName: a2s.sourceTvName,
+                tags: parseKeywords(a2s.keywords),
+                gameId: a2s.gameId,
               };
             } else {
               serverInfo = { ...rconServer, fps, cpu };
             }
+            serverInfo.rcon = toRconHealth(rcon.stats(), rcon);
 
             send(socket, {
               type: "server_status",
@@ -344,6 +608,38 @@ export async function buildApp(logReceiver?: LogReceiver) {
             send(socket, {
               type: "error",
               message: `Status request failed: ${(err as Error).message}`,
+              code: toErrorCode(err),
+            });
+          }
+          break;
+        }
+
+        case "request_rules": {
+          // A2S needs no RCON session, so any server can be queried by
+          // address; without one, the connected server is used.
+          const host = msg.host || rconHost;
+          const port = msg.port ? Number(msg.port) : rconPort;
+
+          if (!host || port === null) {
+            return send(socket, {
+              type: "error",
+              message: "No server to query: connect or give a host and port",
+            });
+          }
+          if (!isValidTarget(host, port)) {
+            return send(socket, { type: "error", message: "Invalid host or port" });
+          }
+
+          try {
+            // Sort a copy: the cached list is shared with other browsers
+            const rules = [...(await a2sCache.rules(host, port, 3000))].sort((a, b) =>
+              a.name.localeCompare(b.name),
+            );
+            send(socket, { type: "server_rules", host, port, rules });
+          } catch (err) {
+            send(socket, {
+              type: "error",
+              message: `Rules query failed: ${(err as Error).message}`,
             });
           }
           break;
@@ -367,6 +663,7 @@ export async function buildApp(logReceiver?: LogReceiver) {
             return send(socket, {
               type: "error",
               message: "Not connected to any server",
+              code: "not_connected",
             });
           }
 
@@ -412,6 +709,7 @@ export async function buildApp(logReceiver?: LogReceiver) {
             send(socket, {
               type: "error",
               message: `Failed to enable log streaming: ${(err as Error).message}`,
+              code: toErrorCode(err),
             });
           }
           break;
@@ -438,13 +736,9 @@ export async function buildApp(logReceiver?: LogReceiver) {
 
     socket.on("close", () => {
       console.log("[WS] Client disconnected");
+      abort.abort();
       cleanupLogListener();
-      if (rcon) {
-        rcon.disconnect();
-        rcon = null;
-        rconHost = null;
-        rconPort = null;
-      }
+      releaseRcon();
     });
   });
 
@@ -460,6 +754,17 @@ async function main(): Promise<void> {
     console.log(`[LOG] UDP log receiver listening on port ${LOG_PORT} (address: ${LOG_ADDRESS})`);
   }
 
+  // Demo mode: a simulated CS2 server so the UI can be tried without one
+  if (DEMO) {
+    // Test tooling, so only loaded when asked for
+    const { FakeRconServer } = await import("@cs2-rcon/rcon/testing");
+    const demoServer = new FakeRconServer({ password: DEMO_RCON_PASSWORD, latencyMs: 30 });
+    await demoServer.listen(DEMO_RCON_PORT);
+    console.log(
+      `[DEMO] Fake CS2 server on 127.0.0.1:${DEMO_RCON_PORT} (password: ${DEMO_RCON_PASSWORD})`,
+    );
+  }
+
   const app = await buildApp(logReceiver);
   await app.listen({ port: PORT, host: "0.0.0.0" });
   console.log(`CS2 Web RCON running on http://localhost:${PORT}`);
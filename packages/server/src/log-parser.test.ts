@@ -36,6 +36,166 @@ describe("parseLogLine", () => {
     expect(event.message).toBe("Attacker [CT] killed Victim [TERRORIST] with ak47 (headshot)");
   });
 
+  it("keeps both players, the weapon and the hit modifiers as fields", () => {
+    const raw =
+      'L 03/01/2024 - 12:34:56: "Attacker<2><[U:1:111]><CT>" [100 200 300] killed "Victim<3><BOT><TERRORIST>" [400 500 600] with "awp" (headshot penetrated)';
+    const event = parseLogLine(raw);
+
+    expect(event).toMatchObject({
+      kind: "kill",
+      attacker: { name: "Attacker", userid: 2, steamId: "[U:1:111]", team: "CT" },
+      victim: { name: "Victim", userid: 3, steamId: "BOT", team: "TERRORIST" },
+      weapon: "awp",
+      headshot: true,
+      penetrated: true,
+    });
+  });
+
+  it("flags a plain kill as neither headshot nor penetrated", () => {
+    const event = parseLogLine(
+      'L 03/01/2024 - 12:34:56: "A<2><STEAM_0:0:111><CT>" [0 0 0] killed "V<3><STEAM_0:0:222><TERRORIST>" [0 0 0] with "knife"',
+    );
+
+    expect(event.kind).toBe("kill");
+    if (event.kind !== "kill") return;
+    expect(event.headshot).toBe(false);
+    expect(event.penetrated).toBe(false);
+  });
+
+  // ─── Damage, assist and grenade events ───
+
+  it("parses a damage event with its hit details", () => {
+    const raw =
+      'L 03/01/2024 - 12:34:56: "Attacker<2><STEAM_1:0:111><CT>" [-1217 -780 -167] attacked "Victim<3><STEAM_1:0:222><TERRORIST>" [-1024 -512 -160] with "ak47" (damage "27") (damage_armor "3") (health "73") (armor "97") (hitgroup "head")';
+    const event = parseLogLine(raw);
+
+    expect(event.category).toBe("combat");
+    expect(event.message).toBe("Attacker [CT] hit Victim [TERRORIST] for 27 with ak47 (head)");
+    expect(event).toMatchObject({
+      kind: "damage",
+      attacker: { name: "Attacker", userid: 2, steamId: "STEAM_1:0:111", team: "CT" },
+      victim: { name: "Victim", userid: 3, steamId: "STEAM_1:0:222", team: "TERRORIST" },
+      weapon: "ak47",
+      damage: 27,
+      armorDamage: 3,
+      health: 73,
+      armor: 97,
+      hitgroup: "head",
+    });
+  });
+
+  it("parses damage without positions and defaults missing fields", () => {
+    const event = parseLogLine(
+      'L 03/01/2024 - 12:34:56: "A<2><STEAM_1:0:1><CT>" attacked "B<3><BOT><TERRORIST>" with "hegrenade" (damage "40")',
+    );
+
+    expect(event).toMatchObject({
+      kind: "damage",
+      weapon: "hegrenade",
+      damage: 40,
+      armorDamage: 0,
+      health: 0,
+      hitgroup: "generic",
+    });
+    expect(event.message).toBe("A [CT] hit B [TERRORIST] for 40 with hegrenade");
+  });
+
+  it("parses kill assists and flash assists", () => {
+    const assist = parseLogLine(
+      'L 03/01/2024 - 12:34:56: "Helper<4><STEAM_1:0:4><CT>" assisted killing "Victim<3><STEAM_1:0:3><TERRORIST>"',
+    );
+    const flash = parseLogLine(
+      'L 03/01/2024 - 12:34:56: "Helper<4><STEAM_1:0:4><CT>" flash-assisted killing "Victim<3><STEAM_1:0:3><TERRORIST>"',
+    );
+
+    expect(assist).toMatchObject({
+      kind: "assist",
+      category: "combat",
+      assister: { name: "Helper", userid: 4 },
+      victim: { name: "Victim", team: "TERRORIST" },
+      flash: false,
+    });
+    expect(assist.message).toBe("Helper [CT] assisted killing Victim [TERRORIST]");
+    expect(flash).toMatchObject({ kind: "assist", flash: true });
+    expect(flash.message).toBe("Helper [CT] flash-assisted killing Victim [TERRORIST]");
+  });
+
+  it.each(["hegrenade", "flashbang", "smokegrenade", "molotov"])(
+    "parses a thrown %s",
+    (grenade) => {
+      const event = parseLogLine(
+        `L 03/01/2024 - 12:34:56: "Thrower<5><STEAM_1:0:5><TERRORIST>" threw ${grenade} [-123 456 78]`,
+      );
+
+      expect(event).toMatchObject({
+        kind: "grenade",
+        category: "utility",
+        player: { name: "Thrower", team: "TERRORIST" },
+        grenade,
+        position: { x: -123, y: 456, z: 78 },
+      });
+      expect(event.message).toBe(`Thrower [TERRORIST] threw ${grenade}`);
+    },
+  );
+
+  it("ignores the trailing entindex on flashbang throws", () => {
+    const event = parseLogLine(
+      'L 03/01/2024 - 12:34:56: "Thrower<5><STEAM_1:0:5><CT>" threw flashbang [10 -20 30] flashbang entindex 212)',
+    );
+
+    expect(event).toMatchObject({ grenade: "flashbang", position: { x: 10, y: -20, z: 30 } });
+  });
+
+  // ─── Economy events ───
+
+  it("parses a purchase", () => {
+    const event = parseLogLine(
+      'L 03/01/2024 - 12:34:56: "Buyer<2><STEAM_1:0:2><CT>" purchased "ak47"',
+    );
+
+    expect(event).toMatchObject({
+      kind: "purchase",
+      category: "economy",
+      player: { name: "Buyer", userid: 2, team: "CT" },
+      item: "ak47",
+      message: "Buyer [CT] bought ak47",
+    });
+  });
+
+  it("parses a money change caused by a purchase", () => {
+    const raw =
+      'L 03/01/2024 - 12:34:56: "Buyer<2><STEAM_1:0:2><CT>" money change 4750-2700 = $2050 (tracked) (purchase: weapon_ak47)';
+    const event = parseLogLine(raw);
+
+    expect(event).toMatchObject({
+      kind: "money",
+      category: "economy",
+      player: { name: "Buyer", steamId: "STEAM_1:0:2" },
+      previous: 4750,
+      delta: -2700,
+      balance: 2050,
+      tracked: true,
+      purchase: "weapon_ak47",
+    });
+    expect(event.message).toBe("Buyer [CT] -$2700 = $2050 (weapon_ak47)");
+  });
+
+  it("parses round income as a positive, untracked money change", () => {
+    const event = parseLogLine(
+      'L 03/01/2024 - 12:34:56: "Buyer<2><STEAM_1:0:2><TERRORIST>" money change 1400+1900 = $3300',
+    );
+
+    expect(event).toMatchObject({
+      kind: "money",
+      previous: 1400,
+      delta: 1900,
+      balance: 3300,
+      tracked: false,
+      purchase: null,
+    });
+    expect(event.message).toBe("Buyer [TERRORIST] +$1900 = $3300");
+  });
+
   // ─── Chat events ───
 
   it("parses a say chat message", () => {
@@ -50,6 +210,12 @@ describe("parseLogLine", () => {
     const event = parseLogLine(raw);
     expect(event.category).toBe("chat");
     expect(event.message).toBe("[TEAM] Player [TERRORIST]: rush B");
+    expect(event).toMatchObject({
+      kind: "chat",
+      player: { name: "Player", userid: 2, steamId: "STEAM_0:0:123", team: "TERRORIST" },
+      text: "rush B",
+      teamOnly: true,
+    });
   });
 
   it("handles chat from a player with no team", () => {
@@ -67,6 +233,11 @@ describe("parseLogLine", () => {
     const event = parseLogLine(raw);
     expect(event.category).toBe("connection");
     expect(event.message).toBe("Player connected (STEAM_0:0:123) from 1.2.3.4:27005");
+    expect(event).toMatchObject({
+      kind: "connected",
+      player: { userid: 2, steamId: "STEAM_0:0:123", team: "" },
+      address: "1.2.3.4:27005",
+    });
   });
 
   it("parses a player entering the game", () => {
@@ -74,6 +245,7 @@ describe("parseLogLine", () => {
     const event = parseLogLine(raw);
     expect(event.category).toBe("connection");
     expect(event.message).toBe("Player entered the game");
+    expect(event.kind).toBe("entered_game");
   });
 
   // ─── Disconnection events ───
@@ -92,6 +264,11 @@ describe("parseLogLine", () => {
     const event = parseLogLine(raw);
     expect(event.category).toBe("disconnection");
     expect(event.message).toBe("Player disconnected (Kicked by Console)");
+    expect(event).toMatchObject({
+      kind: "disconnected",
+      player: { name: "Player", userid: 2 },
+      reason: "Kicked by Console",
+    });
   });
 
   // ─── Round events ───
@@ -101,6 +278,7 @@ describe("parseLogLine", () => {
     const event = parseLogLine(raw);
     expect(event.category).toBe("round");
     expect(event.message).toBe("Round started");
+    expect(event.kind).toBe("round_start");
   });
 
   it("parses Round_End", () => {
@@ -115,6 +293,146 @@ describe("parseLogLine", () => {
     const event = parseLogLine(raw);
     expect(event.category).toBe("round");
     expect(event.message).toBe("CT: SFUI_Notice_CTs_Win");
+    expect(event).toMatchObject({
+      kind: "team_triggered",
+      team: "CT",
+      trigger: "SFUI_Notice_CTs_Win",
+    });
+  });
+
+  // ─── Match events ───
+
+  it("parses map loading and map start", () => {
+    const loading = parseLogLine('L 03/01/2024 - 12:00:00: Loading map "de_inferno"');
+    const started = parseLogLine('L 03/01/2024 - 12:00:05: Started map "de_inferno" (CRC "-1")');
+
+    expect(loading).toMatchObject({ kind: "map_loading", category: "match", map: "de_inferno" });
+    expect(loading.message).toBe("Loading map de_inferno");
+    expect(started).toMatchObject({ kind: "map_started", category: "match", map: "de_inferno" });
+  });
+
+  it("parses the match start with and without a map", () => {
+    const onMap = parseLogLine(
+      'L 03/01/2024 - 12:01:00: World triggered "Match_Start" on "de_mirage"',
+    );
+    const bare = parseLogLine('L 03/01/2024 - 12:01:00: World triggered "Match_Start"');
+
+    expect(onMap).toMatchObject({ kind: "match_start", map: "de_mirage" });
+    expect(onMap.message).toBe("Match started on de_mirage");
+    expect(bare).toMatchObject({ kind: "match_start", map: null, message: "Match started" });
+  });
+
+  it.each([
+    "Game Over: competitive 1092904694 de_dust2 score 13:9 after 35 min",
+    "Game Over: competitive mg_active de_dust2 score 13:9 after 35 min",
+    "Game Over: competitive de_dust2 score 13:9 after 35 min",
+  ])("parses %s", (body) => {
+    const event = parseLogLine(`L 03/01/2024 - 12:40:00: ${body}`);
+
+    expect(event).toMatchObject({
+      kind: "game_over",
+      category: "match",
+      mode: "competitive",
+      map: "de_dust2",
+      score: { ct: 13, t: 9 },
+      durationMinutes: 35,
+      message: "Game over on de_dust2: CT 13 - 9 T after 35 min",
+    });
+  });
+
+  it("parses a team's score", () => {
+    const event = parseLogLine('L 03/01/2024 - 12:20:00: Team "CT" scored "7" with "5" players');
+
+    expect(event).toMatchObject({
+      kind: "team_score",
+      category: "match",
+      team: "CT",
+      score: 7,
+      players: 5,
+      message: "CT scored 7 with 5 players",
+    });
+  });
+
+  it("parses the match status", () => {
+    const event = parseLogLine(
+      'L 03/01/2024 - 12:20:00: MatchStatus: Score: 7:5 on map "de_dust2" RoundsPlayed: 12',
+    );
+
+    expect(event).toMatchObject({
+      kind: "match_status",
+      category: "match",
+      score: { ct: 7, t: 5 },
+      map: "de_dust2",
+      roundsPlayed: 12,
+    });
+  });
+
+  // ─── Objective events ───
+
+  it("parses a bomb plant with its site", () => {
+    const raw =
+      'L 03/01/2024 - 12:34:56: "Planter<4><[U:1:444]><TERRORIST>" triggered "Planted_The_Bomb" at bombsite B';
+    const event = parseLogLine(raw);
+
+    expect(event.category).toBe("objective");
+    expect(event.message).toBe("Planter [TERRORIST] planted the bomb at B");
+    expect(event).toMatchObject({
+      kind: "objective",
+      action: "bomb_planted",
+      player: { name: "Planter", userid: 4, steamId: "[U:1:444]", team: "TERRORIST" },
+      site: "B",
+    });
+  });
+
+  it("parses a defuse start with and without a kit", () => {
+    const withKit = parseLogLine(
+      'L 03/01/2024 - 12:34:56: "Ninja<5><STEAM_1:0:5><CT>" triggered "Begin_Bomb_Defuse_With_Kit"',
+    );
+    const withoutKit = parseLogLine(
+      'L 03/01/2024 - 12:34:56: "Ninja<5><STEAM_1:0:5><CT>" triggered "Begin_Bomb_Defuse_Without_Kit"',
+    );
+
+    expect(withKit).toMatchObject({ action: "defuse_started", withKit: true, site: null });
+    expect(withoutKit).toMatchObject({ action: "defuse_started", withKit: false });
+    expect(withoutKit.message).toBe("Ninja [CT] started defusing without a kit");
+  });
+
+  it.each([
+    ["Defused_The_Bomb", "bomb_defused"],
+    ["Got_The_Bomb", "bomb_pickup"],
+    ["Dropped_The_Bomb", "bomb_dropped"],
+    ["Touched_A_Hostage", "hostage_touched"],
+    ["Rescued_A_Hostage", "hostage_rescued"],
+    ["Killed_A_Hostage", "hostage_killed"],
+  ])("parses the %s trigger", (trigger, action) => {
+    const event = parseLogLine(
+      `L 03/01/2024 - 12:34:56: "Player<2><STEAM_0:0:123><CT>" triggered "${trigger}"`,
+    );
+
+    expect(event).toMatchObject({ kind: "objective", action, player: { name: "Player" } });
+  });
+
+  it("parses the bomb exploding as an objective credited to the team", () => {
+    const raw =
+      'L 03/01/2024 - 12:34:56: Team "TERRORIST" triggered "SFUI_Notice_Target_Bombed" (CT "3") (T "5")';
+    const event = parseLogLine(raw);
+
+    expect(event).toMatchObject({
+      kind: "objective",
+      category: "objective",
+      action: "bomb_exploded",
+      player: null,
+      team: "TERRORIST",
+      message: "The bomb exploded (TERRORIST win)",
+    });
+  });
+
+  it("leaves other player triggers alone", () => {
+    const event = parseLogLine(
+      'L 03/01/2024 - 12:34:56: "Player<2><STEAM_0:0:123><CT>" triggered "clantag" (value "")',
+    );
+
+    expect(event.kind).toBe("other");
   });
 
   // ─── Other / fallback ───
@@ -123,6 +441,7 @@ describe("parseLogLine", () => {
     const raw = 'L 03/01/2024 - 12:34:56: server_cvar: "mp_autoteambalance" "1"';
     const event = parseLogLine(raw);
     expect(event.category).toBe("other");
+    expect(event.kind).toBe("other");
     expect(event.message).toBe('server_cvar: "mp_autoteambalance" "1"');
   });
 
@@ -1,79 +1,393 @@
-import type { LogEvent } from "@cs2-rcon/shared";
+import type { LogEvent, LogPlayer, ObjectiveAction } from "@cs2-rcon/shared";
 
 // Compiled once at module load — these are on the hot path during log streaming.
 // Character classes like [^<]+ and [^>]+ are used instead of .+? to prevent
 // catastrophic backtracking (ReDoS) on crafted input.
 const TIMESTAMP_RE = /^L\s+(\d{2}\/\d{2}\/\d{4}\s+-\s+\d{2}:\d{2}:\d{2}):\s*(.*)/;
-const HEADSHOT_RE = /\(headshot\)/;
+const HEADSHOT_RE = /\([^)]*\bheadshot\b[^)]*\)/;
+const PENETRATED_RE = /\([^)]*\bpenetrated\b[^)]*\)/;
+const DAMAGE_RE = /\(damage\s+"(\d+)"\)/;
+const ARMOR_DAMAGE_RE = /\(damage_armor\s+"(\d+)"\)/;
+const HEALTH_RE = /\(health\s+"(\d+)"\)/;
+const ARMOR_RE = /\(armor\s+"(\d+)"\)/;
+const HITGROUP_RE = /\(hitgroup\s+"([^"]*)"\)/;
+const TRACKED_RE = /\(tracked\)/;
+const PURCHASE_RE = /\(purchase:\s*([^)\s]+)\s*\)/;
+
+/** `"Name<userid><steamId><team>"`, captured as four groups. */
+const PLAYER = String.raw`"([^<]+)<(\d+)><([^>]*)><([^>]*)>"`;
+
+/** A ` [x y z]` world position following a player, as logged for hits and throws. */
+const POSITION = String.raw`\s+\[([^\]]*)\]`;
+
+/** Player triggers of the bomb and hostages, and how each reads in the console. */
+const OBJECTIVE_TRIGGERS: Record<string, { action: ObjectiveAction; text: string }> = {
+  Got_The_Bomb: { action: "bomb_pickup", text: "picked up the bomb" },
+  Dropped_The_Bomb: { action: "bomb_dropped", text: "dropped the bomb" },
+  Bomb_Begin_Plant: { action: "plant_started", text: "started planting the bomb" },
+  Planted_The_Bomb: { action: "bomb_planted", text: "planted the bomb" },
+  Begin_Bomb_Defuse_With_Kit: { action: "defuse_started", text: "started defusing with a kit" },
+  Begin_Bomb_Defuse_Without_Kit: {
+    action: "defuse_started",
+    text: "started defusing without a kit",
+  },
+  Defused_The_Bomb: { action: "bomb_defused", text: "defused the bomb" },
+  Touched_A_Hostage: { action: "hostage_touched", text: "picked up a hostage" },
+  Rescued_A_Hostage: { action: "hostage_rescued", text: "rescued a hostage" },
+  Killed_A_Hostage: { action: "hostage_killed", text: "killed a hostage" },
+};
+
+const OBJECTIVE_TRIGGER_NAMES = Object.keys(OBJECTIVE_TRIGGERS).join("|");
+
+/** Distributes `Omit` over a union, keeping each member's own fields. */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** What a pattern contributes; `timestamp` and `raw` come from the line itself. */
+type LogEventDetails = DistributiveOmit<LogEvent, "timestamp" | "raw">;
 
 interface LogPattern {
-  category: LogEvent["category"];
   guard?: RegExp;
   re: RegExp;
-  handler: (match: RegExpMatchArray, body: string) => string;
+  parse: (match: RegExpMatchArray, body: string) => LogEventDetails;
+}
+
+/** Build the player whose four `PLAYER` groups start at `match[index]`. */
+function playerAt(match: RegExpMatchArray, index: number): LogPlayer {
+  return {
+    name: match[index],
+    userid: Number(match[index + 1]),
+    steamId: match[index + 2],
+    team: match[index + 3],
+  };
+}
+
+/** Read a numeric `(name "N")` field from the modifiers after a hit; 0 when absent. */
+function numberField(modifiers: string, re: RegExp): number {
+  const match = modifiers.match(re);
+  return match ? Number(match[1]) : 0;
+}
+
+/** Parse a logged `x y z` position, or null if it isn't three numbers. */
+function parsePosition(text: string | undefined): { x: number; y: number; z: number } | null {
+  const coords = text?.trim().split(/\s+/).map(Number);
+  if (!coords || coords.length !== 3 || coords.some((n) => !Number.isFinite(n))) {
+    return null;
+  }
+  const [x, y, z] = coords;
+  return { x, y, z };
 }
 
 const PATTERNS: LogPattern[] = [
   {
-    category: "kill",
     guard: /killed\s+"[^"]*"[^"]*with\s+"/,
-    re: /"([^<]+)<\d+><[^>]+><([^>]*)>"[^"]*killed\s+"([^<]+)<\d+><[^>]+><([^>]*)>"[^"]*with\s+"([^"]+)"/,
-    handler: (match, body) => {
-      const [, attacker, attackerTeam, victim, victimTeam, weapon] = match;
-      const hs = HEADSHOT_RE.test(body) ? " (headshot)" : "";
-      return `${attacker} [${attackerTeam}] killed ${victim} [${victimTeam}] with ${weapon}${hs}`;
+    re: new RegExp(String.raw`${PLAYER}[^"]*killed\s+${PLAYER}[^"]*with\s+"([^"]+)"`),
+    parse: (match, body) => {
+      const attacker = playerAt(match, 1);
+      const victim = playerAt(match, 5);
+      const weapon = match[9];
+      // Modifiers follow the weapon; names before it could contain anything
+      const modifiers = body.slice((match.index ?? 0) + match[0].length);
+      const headshot = HEADSHOT_RE.test(modifiers);
+      const hs = headshot ? " (headshot)" : "";
+      return {
+        kind: "kill",
+        category: "kill",
+        attacker,
+        victim,
+        weapon,
+        headshot,
+        penetrated: PENETRATED_RE.test(modifiers),
+        message: `${attacker.name} [${attacker.team}] killed ${victim.name} [${victim.team}] with ${weapon}${hs}`,
+      };
     },
   },
   {
-    category: "chat",
-    re: /"([^<]+)<\d+><[^>]+><([^>]*)>"\s+(say_team|say)\s+"(.*)"$/,
-    handler: (match) => {
-      const [, player, team, chatType, message] = match;
-      const prefix = chatType === "say_team" ? "[TEAM] " : "";
-      const teamTag = team ? ` [${team}]` : "";
-      return `${prefix}${player}${teamTag}: ${message}`;
+    re: new RegExp(String.raw`${PLAYER}\s+(say_team|say)\s+"(.*)"$`),
+    parse: (match) => {
+      const player = playerAt(match, 1);
+      const teamOnly = match[5] === "say_team";
+      const text = match[6];
+      const prefix = teamOnly ? "[TEAM] " : "";
+      const teamTag = player.team ? ` [${player.team}]` : "";
+      return {
+        kind: "chat",
+        category: "chat",
+        player,
+        text,
+        teamOnly,
+        message: `${prefix}${player.name}${teamTag}: ${text}`,
+      };
     },
   },
   {
-    category: "connection",
-    re: /"([^<]+)<(\d+)><([^>]+)><[^>]*>"\s+connected,\s+address\s+"([^"]+)"/,
-    handler: (match) => {
-      const [, player, , steamId, address] = match;
-      return `${player} connected (${steamId}) from ${address}`;
+    guard: /attacked\s+"[^"]*"[^"]*with\s+"/,
+    re: new RegExp(
+      String.raw`${PLAYER}(?:${POSITION})?\s+attacked\s+${PLAYER}(?:${POSITION})?\s+with\s+"([^"]+)"`,
+    ),
+    parse: (match, body) => {
+      const attacker = playerAt(match, 1);
+      const victim = playerAt(match, 6);
+      const weapon = match[11];
+      const modifiers = body.slice((match.index ?? 0) + match[0].length);
+      const damage = numberField(modifiers, DAMAGE_RE);
+      const hitgroup = modifiers.match(HITGROUP_RE)?.[1] ?? "generic";
+      const where = hitgroup !== "generic" ? ` (${hitgroup})` : "";
+      return {
+        kind: "damage",
+        category: "combat",
+        attacker,
+        victim,
+        weapon,
+        damage,
+        armorDamage: numberField(modifiers, ARMOR_DAMAGE_RE),
+        health: numberField(modifiers, HEALTH_RE),
+        armor: numberField(modifiers, ARMOR_RE),
+        hitgroup,
+        message: `${attacker.name} [${attacker.team}] hit ${victim.name} [${victim.team}] for ${damage} with ${weapon}${where}`,
+      };
     },
   },
   {
-    category: "connection",
-    re: /"([^<]+)<(\d+)><([^>]+)><[^>]*>"\s+entered the game/,
-    handler: (match) => {
-      const [, player] = match;
-      return `${player} entered the game`;
+    guard: /assisted\s+killing\s+"/,
+    re: new RegExp(String.raw`${PLAYER}\s+(flash-assisted|assisted)\s+killing\s+${PLAYER}`),
+    parse: (match) => {
+      const assister = playerAt(match, 1);
+      const flash = match[5] === "flash-assisted";
+      const victim = playerAt(match, 6);
+      return {
+        kind: "assist",
+        category: "combat",
+        assister,
+        victim,
+        flash,
+        message: `${assister.name} [${assister.team}] ${flash ? "flash-assisted" : "assisted"} killing ${victim.name} [${victim.team}]`,
+      };
     },
   },
   {
-    category: "disconnection",
-    re: /"([^<]+)<(\d+)><([^>]+)><[^>]*>"\s+disconnected\s*\(reason\s+"([^"]+)"\)/,
-    handler: (match) => {
-      const [, player, , , reason] = match;
-      return `${player} disconnected (${reason})`;
+    guard: /\bthrew\s/,
+    re: new RegExp(String.raw`${PLAYER}\s+threw\s+(\w+)(?:${POSITION})?`),
+    parse: (match) => {
+      const player = playerAt(match, 1);
+      const grenade = match[5];
+      return {
+        kind: "grenade",
+        category: "utility",
+        player,
+        grenade,
+        position: parsePosition(match[6]),
+        message: `${player.name} [${player.team}] threw ${grenade}`,
+      };
+    },
+  },
+  {
+    re: new RegExp(String.raw`${PLAYER}\s+purchased\s+"([^"]+)"`),
+    parse: (match) => {
+      const player = playerAt(match, 1);
+      const item = match[5];
+      return {
+        kind: "purchase",
+        category: "economy",
+        player,
+        item,
+        message: `${player.name} [${player.team}] bought ${item}`,
+      };
+    },
+  },
+  {
+    re: new RegExp(String.raw`${PLAYER}\s+money\s+change\s+(\d+)\s*([+-])\s*(\d+)\s*=\s*\$(\d+)`),
+    parse: (match, body) => {
+      const player = playerAt(match, 1);
+      const previous = Number(match[5]);
+      const delta = (match[6] === "-" ? -1 : 1) * Number(match[7]);
+      const balance = Number(match[8]);
+      const modifiers = body.slice((match.index ?? 0) + match[0].length);
+      const purchase = modifiers.match(PURCHASE_RE)?.[1] ?? null;
+      const sign = delta < 0 ? "-" : "+";
+      return {
+        kind: "money",
+        category: "economy",
+        player,
+        previous,
+        delta,
+        balance,
+        tracked: TRACKED_RE.test(modifiers),
+        purchase,
+        message: `${player.name} [${player.team}] ${sign}$${Math.abs(delta)} = $${balance}${purchase ? ` (${purchase})` : ""}`,
+      };
+    },
+  },
+  {
+    re: new RegExp(String.raw`${PLAYER}\s+connected,\s+address\s+"([^"]+)"`),
+    parse: (match) => {
+      const player = playerAt(match, 1);
+      const address = match[5];
+      return {
+        kind: "connected",
+        category: "connection",
+        player,
+        address,
+        message: `${player.name} connected (${player.steamId}) from ${address}`,
+      };
+    },
+  },
+  {
+    re: new RegExp(String.raw`${PLAYER}\s+entered the game`),
+    parse: (match) => {
+      const player = playerAt(match, 1);
+      return {
+        kind: "entered_game",
+        category: "connection",
+        player,
+        message: `${player.name} entered the game`,
+      };
+    },
+  },
+  {
+    re: new RegExp(String.raw`${PLAYER}\s+disconnected\s*\(reason\s+"([^"]+)"\)`),
+    parse: (match) => {
+      const player = playerAt(match, 1);
+      const reason = match[5];
+      return {
+        kind: "disconnected",
+        category: "disconnection",
+        player,
+        reason,
+        message: `${player.name} disconnected (${reason})`,
+      };
+    },
+  },
+  {
+    re: /^Loading map "([^"]+)"/,
+    parse: (match) => ({
+      kind: "map_loading",
+      category: "match",
+      map: match[1],
+      message: `Loading map ${match[1]}`,
+    }),
+  },
+  {
+    re: /^Started map "([^"]+)"/,
+    parse: (match) => ({
+      kind: "map_started",
+      category: "match",
+      map: match[1],
+      message: `Started map ${match[1]}`,
+    }),
+  },
+  {
+    re: /World triggered "Match_Start"(?:\s+on\s+"([^"]+)")?/,
+    parse: (match) => {
+      const map = match[1] ?? null;
+      return {
+        kind: "match_start",
+        category: "match",
+        map,
+        message: map ? `Match started on ${map}` : "Match started",
+      };
+    },
+  },
+  {
+    re: /^Game Over:\s+(\w+)\s+(?:\S+\s+)?(\S+)\s+score\s+(\d+):(\d+)\s+after\s+(\d+)\s+min/,
+    parse: (match) => {
+      const [, mode, map] = match;
+      const score = { ct: Number(match[3]), t: Number(match[4]) };
+      const durationMinutes = Number(match[5]);
+      return {
+        kind: "game_over",
+        category: "match",
+        mode,
+        map,
+        score,
+        durationMinutes,
+        message: `Game over on ${map}: CT ${score.ct} - ${score.t} T after ${durationMinutes} min`,
+      };
+    },
+  },
+  {
+    re: /^MatchStatus:\s+Score:\s+(\d+):(\d+)\s+on\s+map\s+"([^"]+)"\s+RoundsPlayed:\s+(\d+)/,
+    parse: (match) => {
+      const score = { ct: Number(match[1]), t: Number(match[2]) };
+      const map = match[3];
+      const roundsPlayed = Number(match[4]);
+      return {
+        kind: "match_status",
+        category: "match",
+        score,
+        map,
+        roundsPlayed,
+        message: `Score CT ${score.ct} - ${score.t} T on ${map} after ${roundsPlayed} rounds`,
+      };
+    },
+  },
+  {
+    re: /^Team "([^"]+)"\s+scored\s+"(\d+)"\s+with\s+"(\d+)"\s+players/,
+    parse: (match) => {
+      const team = match[1];
+      const score = Number(match[2]);
+      const players = Number(match[3]);
+      return {
+        kind: "team_score",
+        category: "match",
+        team,
+        score,
+        players,
+        message: `${team} scored ${score} with ${players} players`,
+      };
     },
   },
   {
-    category: "round",
     re: /World triggered "Round_Start"/,
-    handler: () => "Round started",
+    parse: () => ({ kind: "round_start", category: "round", message: "Round started" }),
   },
   {
-    category: "round",
     re: /World triggered "Round_End"/,
-    handler: () => "Round ended",
+    parse: () => ({ kind: "round_end", category: "round", message: "Round ended" }),
+  },
+  {
+    guard: /\btriggered\s+"/,
+    re: new RegExp(
+      String.raw`${PLAYER}\s+triggered\s+"(${OBJECTIVE_TRIGGER_NAMES})"(?:\s+at\s+bombsite\s+(\w+))?`,
+    ),
+    parse: (match) => {
+      const player = playerAt(match, 1);
+      const trigger = match[5];
+      const { action, text } = OBJECTIVE_TRIGGERS[trigger];
+      const site = match[6] ?? null;
+      return {
+        kind: "objective",
+        category: "objective",
+        action,
+        player,
+        site,
+        ...(action === "defuse_started" && { withKit: trigger === "Begin_Bomb_Defuse_With_Kit" }),
+        message: `${player.name} [${player.team}] ${text}${site ? ` at ${site}` : ""}`,
+      };
+    },
+  },
+  {
+    re: /Team "([^"]+)"\s+triggered\s+"SFUI_Notice_Target_Bombed"/,
+    parse: (match) => ({
+      kind: "objective",
+      category: "objective",
+      action: "bomb_exploded",
+      player: null,
+      site: null,
+      team: match[1],
+      message: `The bomb exploded (${match[1]} win)`,
+    }),
   },
   {
-    category: "round",
     re: /Team "([^"]+)"\s+triggered\s+"([^"]+)"/,
-    handler: (match) => {
-      const [, team, event] = match;
-      return `${team}: ${event}`;
+    parse: (match) => {
+      const [, team, trigger] = match;
+      return {
+        kind: "team_triggered",
+        category: "round",
+        team,
+        trigger,
+        message: `${team}: ${trigger}`,
+      };
     },
   },
 ];
@@ -86,13 +400,22 @@ const PATTERNS: LogPattern[] = [
  * L MM/DD/YYYY - HH:MM:SS: <message>
  * ```
  *
- * Supported event categories:
- * - **kill**: player killed another player
- * - **chat**: say / say_team messages
- * - **connection**: player connected / entered the game
- * - **disconnection**: player disconnected
- * - **round**: round start / end / win events
- * - **other**: anything that doesn't match a known pattern
+ * Supported event kinds (and their display category):
+ * - **kill** (kill): player killed another player
+ * - **damage**, **assist** (combat): a hit with damage and hitgroup; (flash) kill assists
+ * - **grenade** (utility): a thrown grenade and where it was thrown from
+ * - **purchase**, **money** (economy): items bought; money changes (with `mp_logmoney 1`)
+ * - **chat** (chat): say / say_team messages
+ * - **connected**, **entered_game** (connection): player connected / entered the game
+ * - **disconnected** (disconnection): player disconnected
+ * - **round_start**, **round_end**, **team_triggered** (round): round start / end / win events
+ * - **map_loading**, **map_started**, **match_start**, **game_over**, **team_score**,
+ *   **match_status** (match): map changes, match start and end, and the score
+ * - **objective** (objective): bomb pickup, plant, defuse and explosion; hostage events
+ * - **other** (other): anything that doesn't match a known pattern
+ *
+ * Players keep their userid, SteamID and team, so consumers can compute
+ * stats from the typed fields without re-parsing `raw`.
  */
 export function parseLogLine(raw: string): LogEvent {
   const trimmed = raw.trim();
@@ -108,15 +431,10 @@ export function parseLogLine(raw: string): LogEvent {
     }
     const match = body.match(pattern.re);
     if (match) {
-      return {
-        timestamp,
-        category: pattern.category,
-        message: pattern.handler(match, body),
-        raw: trimmed,
-      };
+      return { ...pattern.parse(match, body), timestamp, raw: trimmed };
     }
   }
 
   // Fallback: any other log line
-  return { timestamp, category: "other", message: body, raw: trimmed };
+  return { kind: "other", category: "other", timestamp, message: body, raw: trimmed };
 }
@@ -0,0 +1,297 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "node:events";
+import type { RconClient } from "@cs2-rcon/rcon";
+import { FakeRconServer } from "@cs2-rcon/rcon/testing";
+import { RconPool, poolKey } from "./rcon-pool.js";
+
+// ── Fake client ─────────────────────────────────────────────────────────
+class FakeClient extends EventEmitter {
+  connect = vi.fn(async (_host: string, _port: number, _password: string) => {});
+  disconnect = vi.fn();
+  isConnected = true;
+}
+
+describe("poolKey", () => {
+  it("distinguishes servers and passwords", () => {
+    expect(poolKey("10.0.0.1", 27015, "a")).not.toBe(poolKey("10.0.0.1", 27016, "a"));
+    expect(poolKey("10.0.0.1", 27015, "a")).not.toBe(poolKey("10.0.0.1", 27015, "b"));
+    expect(poolKey("10.0.0.1", 27015, "a")).toBe(poolKey("10.0.0.1", 27015, "a"));
+  });
+
+  it("does not contain the password", () => {
+    expect(poolKey("10.0.0.1", 27015, "hunter2")).not.toContain("hunter2");
+  });
+});
+
+describe("RconPool", () => {
+  let clients: FakeClient[];
+  let pool: RconPool;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clients = [];
+    pool = new RconPool({
+      idleTimeoutMs: 1_000,
+      createClient: () => {
+        const client = new FakeClient();
+        clients.push(client);
+        return client as unknown as RconClient;
+      },
+    });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    pool.close();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("shares one connection between leases for the same server and password", async () => {
+    const [a, b] = await Promise.all([
+      pool.acquire("10.0.0.1", 27015, "pw"),
+      pool.acquire("10.0.0.1", 27015, "pw"),
+    ]);
+
+    expect(clients).toHaveLength(1);
+    expect(clients[0].connect).toHaveBeenCalledOnce();
+    expect(a.client).toBe(b.client);
+    expect(pool.size).toBe(1);
+  });
+
+  it("opens separate connections for different servers or passwords", async () => {
+    await pool.acquire("10.0.0.1", 27015, "pw");
+    await pool.acquire("10.0.0.2", 27015, "pw");
+    await pool.acquire("10.0.0.1", 27015, "other");
+
+    expect(clients).toHaveLength(3);
+    expect(pool.size).toBe(3);
+  });
+
+  it("keeps the connection open while any lease is held", async () => {
+    const a = await pool.acquire("10.0.0.1", 27015, "pw");
+    const b = await pool.acquire("10.0.0.1", 27015, "pw");
+
+    a.release();
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(clients[0].disconnect).not.toHaveBeenCalled();
+    b.release();
+  });
+
+  it("closes the connection after the idle timeout once the last lease is released", async () => {
+    const lease = await pool.acquire("10.0.0.1", 27015, "pw");
+    lease.release();
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(clients[0].disconnect).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(clients[0].disconnect).toHaveBeenCalledOnce();
+    expect(pool.size).toBe(0);
+  });
+
+  it("reuses an idle connection acquired again before eviction", async () => {
+    (await pool.acquire("10.0.0.1", 27015, "pw")).release();
+    await vi.advanceTimersByTimeAsync(500);
+
+    const lease = await pool.acquire("10.0.0.1", 27015, "pw");
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(clients).toHaveLength(1);
+    expect(clients[0].disconnect).not.toHaveBeenCalled();
+    lease.release();
+  });
+
+  it("ignores repeated release calls on the same lease", async () => {
+    const a = await pool.acquire("10.0.0.1", 27015, "pw");
+    const b = await pool.acquire("10.0.0.1", 27015, "pw");
+
+    a.release();
+    a.release();
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(clients[0].disconnect).not.toHaveBeenCalled();
+    b.release();
+  });
+
+  it("rejects every waiter and forgets the entry when connecting fails", async () => {
+    pool = new RconPool({
+      createClient: () => {
+        const client = new FakeClient();
+        client.connect.mockRejectedValue(new Error("Authentication failed"));
+        clients.push(client);
+        return client as unknown as RconClient;
+      },
+    });
+
+    const results = await Promise.allSettled([
+      pool.acquire("10.0.0.1", 27015, "bad"),
+      pool.acquire("10.0.0.1", 27015, "bad"),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    expect(pool.size).toBe(0);
+    expect(clients[0].disconnect).toHaveBeenCalledOnce();
+  });
+
+  it("drops a connection whose reconnect attempts gave up", async () => {
+    const lease = await pool.acquire("10.0.0.1", 27015, "pw");
+
+    clients[0].emit("reconnect_failed", new Error("ECONNREFUSED"));
+    expect(pool.size).toBe(0);
+
+    await pool.acquire("10.0.0.1", 27015, "pw");
+    expect(clients).toHaveLength(2);
+
+    lease.release();
+    expect(clients[0].disconnect).toHaveBeenCalledOnce();
+  });
+
+  it("waits for a reconnect in progress before handing out the connection", async () => {
+    (await pool.acquire("10.0.0.1", 27015, "pw")).release();
+    clients[0].isConnected = false;
+    clients[0].emit("disconnect");
+    clients[0].emit("reconnecting", { attempt: 1, delayMs: 1_000 });
+
+    let acquired = false;
+    const pending = pool.acquire("10.0.0.1", 27015, "pw").then((lease) => {
+      acquired = true;
+      return lease;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(acquired).toBe(false);
+
+    clients[0].isConnected = true;
+    clients[0].emit("reconnected");
+    const lease = await pending;
+
+    expect(lease.client).toBe(clients[0]);
+    lease.release();
+  });
+
+  it("rejects waiters when the reconnect gives up", async () => {
+    (await pool.acquire("10.0.0.1", 27015, "pw")).release();
+    clients[0].isConnected = false;
+    clients[0].emit("reconnecting", { attempt: 1, delayMs: 1_000 });
+
+    const pending = pool.acquire("10.0.0.1", 27015, "pw");
+    await vi.advanceTimersByTimeAsync(0);
+    clients[0].emit("reconnect_failed", new Error("ECONNREFUSED"));
+
+    await expect(pending).rejects.toThrow("ECONNREFUSED");
+    expect(pool.size).toBe(0);
+    expect(clients[0].disconnect).toHaveBeenCalledOnce();
+  });
+
+  it("does not hand out a connection that has closed for good", async () => {
+    (await pool.acquire("10.0.0.1", 27015, "pw")).release();
+    clients[0].isConnected = false;
+
+    await expect(pool.acquire("10.0.0.1", 27015, "pw")).rejects.toThrow("Not authenticated");
+    expect(pool.size).toBe(0);
+    expect(clients[0].disconnect).toHaveBeenCalledOnce();
+  });
+
+  it("fans client events out to lease listeners through one listener per event", async () => {
+    const listeners = Array.from({ length: 12 }, () => ({
+      disconnect: vi.fn(),
+      reconnected: vi.fn(),
+      error: vi.fn(),
+    }));
+    const leases = await Promise.all(
+      listeners.map((listener) => pool.acquire("10.0.0.1", 27015, "pw", listener)),
+    );
+    leases[0].release();
+
+    const client = clients[0];
+    client.emit("disconnect");
+    client.emit("reconnected");
+    client.emit("error", new Error("boom"));
+
+    for (const event of ["disconnect", "reconnected", "error"]) {
+      expect(client.listenerCount(event)).toBe(1);
+    }
+    expect(listeners[0].disconnect).not.toHaveBeenCalled();
+    for (const listener of listeners.slice(1)) {
+      expect(listener.disconnect).toHaveBeenCalledOnce();
+      expect(listener.reconnected).toHaveBeenCalledOnce();
+      expect(listener.error).toHaveBeenCalledWith(expect.objectContaining({ message: "boom" }));
+    }
+    for (const lease of leases) lease.release();
+  });
+
+  it("enables automatic reconnect and heartbeat on pooled clients by default", async () => {
+    const createClient = vi.fn(() => new FakeClient() as unknown as RconClient);
+    pool = new RconPool({ createClient });
+
+    await pool.acquire("10.0.0.1", 27015, "pw");
+
+    expect(createClient).toHaveBeenCalledWith({ reconnect: true, heartbeat: true });
+  });
+
+  it("close() disconnects every connection", async () => {
+    await pool.acquire("10.0.0.1", 27015, "pw");
+    await pool.acquire("10.0.0.2", 27015, "pw");
+
+    pool.close();
+
+    expect(clients.every((c) => c.disconnect.mock.calls.length === 1)).toBe(true);
+    expect(pool.size).toBe(0);
+  });
+});
+
+// ── End-to-end against a fake CS2 server ────────────────────────────────
+describe("RconPool with FakeRconServer", () => {
+  let server: FakeRconServer;
+  let port: number;
+  let pool: RconPool;
+
+  beforeEach(async () => {
+    server = new FakeRconServer({ password: "pw" });
+    port = await server.listen();
+    pool = new RconPool({ idleTimeoutMs: 50 });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    pool.close();
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it("serves several leases over one TCP connection", async () => {
+    const a = await pool.acquire("127.0.0.1", port, "pw");
+    const b = await pool.acquire("127.0.0.1", port, "pw");
+
+    const [status, stats] = await Promise.all([
+      a.client.execute("status"),
+      b.client.execute("stats"),
+    ]);
+
+    expect(status).toContain("hostname: Fake CS2 Server");
+    expect(stats).toContain("FPS");
+    expect(server.connectionCount).toBe(1);
+  });
+
+  it("rejects a wrong password and keeps no entry", async () => {
+    await expect(pool.acquire("127.0.0.1", port, "nope")).rejects.toThrow(/Authentication/);
+    expect(pool.size).toBe(0);
+  });
+
+  it("leaves no TCP connection behind after failed logins", async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(pool.acquire("127.0.0.1", port, "nope")).rejects.toThrow(/Authentication/);
+    }
+
+    expect(pool.size).toBe(0);
+    await vi.waitFor(() => expect(server.connectionCount).toBe(0));
+  });
+
+  it("closes the TCP connection once idle", async () => {
+    (await pool.acquire("127.0.0.1", port, "pw")).release();
+
+    await vi.waitFor(() => expect(server.connectionCount).toBe(0));
+    expect(pool.size).toBe(0);
+  });
+});
@@ -0,0 +1,247 @@
+import { createHash } from "node:crypto";
+import { RconClient, RconNotConnectedError } from "@cs2-rcon/rcon";
+import type { RconClientOptions } from "@cs2-rcon/rcon";
+
+export interface RconLease {
+  /** The shared client.  Do not call `disconnect()` on it; release the lease instead. */
+  readonly client: RconClient;
+  /** Return the connection to the pool.  Safe to call more than once. */
+  release(): void;
+}
+
+/**
+ * Connection events for one lease holder.  The pool listens on the shared
+ * client once and fans out to every lease, so any number of browsers can
+ * follow one connection without piling listeners onto the client.
+ */
+export interface RconLeaseListener {
+  /** The connection was lost; a reconnect may follow. */
+  disconnect?: () => void;
+  /** The session was re-established after an automatic reconnect. */
+  reconnected?: () => void;
+  /** A socket-level error occurred. */
+  error?: (err: Error) => void;
+}
+
+export interface RconPoolOptions {
+  /** How long an unused connection is kept open before closing (default: 60000). */
+  idleTimeoutMs?: number;
+  /** Options for every pooled client (default: automatic reconnect and heartbeat enabled). */
+  clientOptions?: RconClientOptions;
+  /** Client factory, overridable for tests. */
+  createClient?: (options: RconClientOptions) => RconClient;
+}
+
+interface PoolEntry {
+  client: RconClient;
+  /** Settles once the initial connect + authentication has finished. */
+  ready: Promise<void>;
+  /** Settles once a reconnect in progress succeeds or gives up; null while online. */
+  reconnecting: Promise<void> | null;
+  refs: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  listeners: Set<RconLeaseListener>;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 60_000;
+
+/**
+ * Pool key for a server + password.  The password is hashed so it never
+ * appears in keys that may end up in logs or debugging output.
+ */
+export function poolKey(host: string, port: number, password: string): string {
+  const digest = createHash("sha256").update(password).digest("hex").slice(0, 16);
+  return `${host}:${port}#${digest}`;
+}
+
+/**
+ * Shared, ref-counted RCON connections.
+ *
+ * Every browser used to open its own RCON session, so N admins watching one
+ * game server meant N TCP connections each polling `status`/`stats`.  The
+ * pool keeps a single authenticated `RconClient` per host, port and
+ * password, hands out leases on it, and closes it once the last lease has
+ * been released and the connection has sat idle for `idleTimeoutMs`.
+ *
+ * Usage:
+ * ```ts
+ * const pool = new RconPool();
+ * const lease = await pool.acquire("10.0.0.5", 27015, "secret");
+ * await lease.client.execute("status");
+ * lease.release();
+ * ```
+ */
+export class RconPool {
+  private entries = new Map<string, PoolEntry>();
+  private readonly idleTimeoutMs: number;
+  private readonly clientOptions: RconClientOptions;
+  private readonly createClient: (options: RconClientOptions) => RconClient;
+
+  constructor(options: RconPoolOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.clientOptions = options.clientOptions ?? { reconnect: true, heartbeat: true };
+    this.createClient = options.createClient ?? ((opts) => new RconClient(opts));
+  }
+
+  /** Number of distinct connections currently held by the pool. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Lease an authenticated connection to `host:port`, opening one if none
+   * exists for this password yet.  A pooled connection that is in the middle
+   * of reconnecting is waited for.  Rejects with the connect error if the
+   * connection cannot be established.  `listener` is told about the
+   * connection's events until the lease is released.
+   */
+  async acquire(
+    host: string,
+    port: number,
+    password: string,
+    listener: RconLeaseListener = {},
+  ): Promise<RconLease> {
+    const key = poolKey(host, port, password);
+    let entry = this.entries.get(key);
+
+    if (!entry) {
+      entry = this.open(key, host, port, password);
+    }
+
+    entry.refs++;
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+
+    const held = entry;
+    try {
+      await held.ready;
+      if (held.reconnecting) {
+        await held.reconnecting;
+      }
+      if (!held.client.isConnected) {
+        // Closed for good (reconnect disabled); don't hand it out again
+        if (this.entries.get(key) === held) {
+          this.entries.delete(key);
+        }
+        throw new RconNotConnectedError();
+      }
+    } catch (err) {
+      this.release(key, held);
+      throw err;
+    }
+
+    held.listeners.add(listener);
+    let released = false;
+    return {
+      client: held.client,
+      release: () => {
+        if (released) return;
+        released = true;
+        held.listeners.delete(listener);
+        this.release(key, held);
+      },
+    };
+  }
+
+  /** Disconnect every pooled connection, regardless of outstanding leases. */
+  close(): void {
+    for (const [key, entry] of this.entries) {
+      this.evict(key, entry);
+    }
+  }
+
+  private open(key: string, host: string, port: number, password: string): PoolEntry {
+    const client = this.createClient(this.clientOptions);
+    const entry: PoolEntry = {
+      client,
+      ready: Promise.resolve(),
+      reconnecting: null,
+      refs: 0,
+      idleTimer: null,
+      listeners: new Set(),
+    };
+    let settleReconnect: ((err?: Error) => void) | null = null;
+
+    // Always listening, so an unobserved error can't crash the process
+    client.on("error", (err) => {
+      console.warn(`[RCON] Pooled connection to ${host}:${port} error:`, err.message);
+      for (const listener of entry.listeners) listener.error?.(err);
+    });
+
+    client.on("disconnect", () => {
+      for (const listener of entry.listeners) listener.disconnect?.();
+    });
+
+    client.on("reconnecting", () => {
+      if (entry.reconnecting) return;
+      entry.reconnecting = new Promise<void>((resolve, reject) => {
+        settleReconnect = (err) => (err ? reject(err) : resolve());
+      });
+      // Only acquire() awaits this; nobody may be waiting when it fails
+      entry.reconnecting.catch(() => {});
+    });
+
+    client.on("reconnected", () => {
+      entry.reconnecting = null;
+      settleReconnect?.();
+      settleReconnect = null;
+      for (const listener of entry.listeners) listener.reconnected?.();
+    });
+
+    client.on("stale", () => {
+      console.warn(`[RCON] Pooled connection to ${host}:${port} stopped responding`);
+    });
+
+    // Once reconnecting gives up the client is dead; let the next acquire
+    // start over instead of handing it out again.
+    client.on("reconnect_failed", (err) => {
+      entry.reconnecting = null;
+      settleReconnect?.(err);
+      settleReconnect = null;
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key);
+      }
+    });
+
+    // On failure the entry leaves the pool here, and the last waiter's
+    // release() then closes the client.
+    entry.ready = client.connect(host, port, password).catch((err: Error) => {
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key);
+      }
+      throw err;
+    });
+    // Waiters observe the rejection; this prevents an unhandled rejection
+    // warning if every waiter has already gone away.
+    entry.ready.catch(() => {});
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private release(key: string, entry: PoolEntry): void {
+    entry.refs--;
+    if (entry.refs > 0) return;
+
+    if (this.entries.get(key) !== entry) {
+      // Already dropped from the pool, so no new lease can revive it
+      entry.client.disconnect();
+      return;
+    }
+
+    entry.idleTimer = setTimeout(() => this.evict(key, entry), this.idleTimeoutMs);
+  }
+
+  private evict(key: string, entry: PoolEntry): void {
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+    if (this.entries.get(key) === entry) {
+      this.entries.delete(key);
+    }
+    entry.client.disconnect();
+  }
+}
@@ -0,0 +1,7 @@
+declare module "seek-bzip" {
+  const Bunzip: {
+    /** Decompress a whole bzip2 stream; `output` may be the expected size. */
+    decode(input: Buffer, output?: Buffer | number, multistream?: boolean): Buffer;
+  };
+  export default Bunzip;
+}
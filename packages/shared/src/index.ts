@@ -10,6 +10,41 @@ export interface ServerInfo {
   secure: boolean;
   fps: number;
   cpu: number;
+  /** Port the game listens on, from A2S_INFO when the server reports it. */
+  gamePort?: number;
+  /** 64-bit SteamID of the server as a decimal string, from A2S_INFO. */
+  steamId?: string;
+  /** GOTV relay port and name, from A2S_INFO when GOTV is enabled. */
+  tvPort?: number;
+  tvName?: string;
+  /** Server tags (`sv_tags`), from A2S_INFO. */
+  tags?: string[];
+  /** 64-bit GameID as a decimal string, from A2S_INFO. */
+  gameId?: string;
+  /** Health of the backend's RCON connection, when known. */
+  rcon?: RconHealth;
+}
+
+/**
+ * Round-trip and reliability figures of the backend's RCON connection.
+ * The connection is pooled, so the counts cover every browser using it,
+ * across reconnects, since the backend opened it; heartbeats are not counted.
+ */
+export interface RconHealth {
+  /** Mean command round-trip in milliseconds; null until a command has been answered. */
+  latencyMs: number | null;
+  /** Approximate 95th percentile round-trip in milliseconds; null until a command has been answered. */
+  p95LatencyMs: number | null;
+  /** Commands that timed out on the shared connection. */
+  timeouts: number;
+  /** Commands that failed for other reasons. */
+  errors: number;
+  /** How long the current RCON session has been up. */
+  uptimeSeconds: number;
+  /** Commands waiting in the shared queue when the status was taken; above 0 means back-pressure. */
+  queued: number;
+  /** Commands sent and still awaiting a response when the status was taken. */
+  inFlight: number;
 }
 
 /** Structured player information shared between the backend and frontend. */
@@ -21,12 +56,308 @@ export interface PlayerInfo {
   ping: number;
   loss: number;
   state: string;
+  /** Kills or game-mode score, from A2S_PLAYER when the server answers it. */
+  score?: number;
+  /** Seconds connected, from A2S_PLAYER when the server answers it. */
+  duration?: number;
+}
+
+/** A publicly replicated cvar, as reported by an A2S_RULES query. */
+export interface ServerRule {
+  name: string;
+  value: string;
+}
+
+/** Reply of `GET /api/probe`: what answers at an address, without RCON. */
+export interface ServerProbe {
+  host: string;
+  port: number;
+  hostname: string;
+  map: string;
+  players: number;
+  maxPlayers: number;
+  bots: number;
+  /** Round-trip time in milliseconds, or null when the ping went unanswered. */
+  pingMs: number | null;
+}
+
+/** One row of `POST /api/browse`: a probe, or why the server could not be probed. */
+export type ServerProbeResult =
+  | ({ online: true } & ServerProbe)
+  | { online: false; host: string; port: number; error: string };
+
+/** A player as a log line names them: `"Name<userid><steamId><team>"`. */
+export interface LogPlayer {
+  name: string;
+  userid: number;
+  /** SteamID as logged, e.g. `STEAM_1:0:123` or `[U:1:123]`; `BOT` for bots. */
+  steamId: string;
+  /** `CT`, `TERRORIST`, `Spectator`, `Unassigned`, or empty before joining a team. */
+  team: string;
 }
 
-/** A parsed game log event received via UDP log streaming. */
-export interface LogEvent {
+/** Coarse grouping of log events, used to colour the console. */
+export type LogCategory =
+  | "kill"
+  | "combat"
+  | "utility"
+  | "chat"
+  | "connection"
+  | "disconnection"
+  | "round"
+  | "objective"
+  | "economy"
+  | "match"
+  | "other";
+
+/** Fields every log event carries, whatever its kind. */
+export interface LogEventBase {
   timestamp: string;
-  category: "kill" | "chat" | "connection" | "disconnection" | "round" | "other";
+  /** Human-readable summary for display. */
   message: string;
+  /** The log line as received. */
   raw: string;
 }
+
+export interface KillEvent extends LogEventBase {
+  kind: "kill";
+  category: "kill";
+  attacker: LogPlayer;
+  victim: LogPlayer;
+  weapon: string;
+  headshot: boolean;
+  /** The bullet went through a wall or another object first. */
+  penetrated: boolean;
+}
+
+export interface DamageEvent extends LogEventBase {
+  kind: "damage";
+  category: "combat";
+  attacker: LogPlayer;
+  victim: LogPlayer;
+  weapon: string;
+  /** Health taken from the victim. */
+  damage: number;
+  /** Armor taken from the victim. */
+  armorDamage: number;
+  /** The victim's health after the hit. */
+  health: number;
+  /** The victim's armor after the hit. */
+  armor: number;
+  /** e.g. `head`, `chest`, `left leg`, or `generic`. */
+  hitgroup: string;
+}
+
+export interface AssistEvent extends LogEventBase {
+  kind: "assist";
+  category: "combat";
+  assister: LogPlayer;
+  victim: LogPlayer;
+  /** Credited for blinding the victim rather than damaging them. */
+  flash: boolean;
+}
+
+export interface GrenadeEvent extends LogEventBase {
+  kind: "grenade";
+  category: "utility";
+  player: LogPlayer;
+  /** As logged: `hegrenade`, `flashbang`, `smokegrenade`, `molotov`, `incgrenade` or `decoy`. */
+  grenade: string;
+  /** Where the grenade was thrown from, when the log includes it. */
+  position: { x: number; y: number; z: number } | null;
+}
+
+export interface ChatEvent extends LogEventBase {
+  kind: "chat";
+  category: "chat";
+  player: LogPlayer;
+  text: string;
+  /** `say_team` rather than `say`. */
+  teamOnly: boolean;
+}
+
+export interface ConnectedEvent extends LogEventBase {
+  kind: "connected";
+  category: "connection";
+  player: LogPlayer;
+  address: string;
+}
+
+export interface EnteredGameEvent extends LogEventBase {
+  kind: "entered_game";
+  category: "connection";
+  player: LogPlayer;
+}
+
+export interface DisconnectedEvent extends LogEventBase {
+  kind: "disconnected";
+  category: "disconnection";
+  player: LogPlayer;
+  reason: string;
+}
+
+export interface RoundStartEvent extends LogEventBase {
+  kind: "round_start";
+  category: "round";
+}
+
+export interface RoundEndEvent extends LogEventBase {
+  kind: "round_end";
+  category: "round";
+}
+
+export interface TeamTriggeredEvent extends LogEventBase {
+  kind: "team_triggered";
+  category: "round";
+  team: string;
+  /** e.g. `SFUI_Notice_CTs_Win`. */
+  trigger: string;
+}
+
+/** What happened to the bomb or a hostage. */
+export type ObjectiveAction =
+  | "bomb_pickup"
+  | "bomb_dropped"
+  | "plant_started"
+  | "bomb_planted"
+  | "defuse_started"
+  | "bomb_defused"
+  | "bomb_exploded"
+  | "hostage_touched"
+  | "hostage_rescued"
+  | "hostage_killed";
+
+export interface ObjectiveEvent extends LogEventBase {
+  kind: "objective";
+  category: "objective";
+  action: ObjectiveAction;
+  /** Who did it; null for `bomb_exploded`, which the log credits to a team. */
+  player: LogPlayer | null;
+  /** Bombsite letter, when the log names one. */
+  site: string | null;
+  /** For `defuse_started`: whether the defuser has a kit. */
+  withKit?: boolean;
+  /** For `bomb_exploded`: the team that wins the round by it. */
+  team?: string;
+}
+
+export interface PurchaseEvent extends LogEventBase {
+  kind: "purchase";
+  category: "economy";
+  player: LogPlayer;
+  /** Item as logged, e.g. `ak47`, `vesthelm` or `weapon_ak47`. */
+  item: string;
+}
+
+/** A player's money changing; only logged while `mp_logmoney` is on. */
+export interface MoneyEvent extends LogEventBase {
+  kind: "money";
+  category: "economy";
+  player: LogPlayer;
+  /** Money before the change. */
+  previous: number;
+  /** Signed change: negative for a purchase, positive for income or a refund. */
+  delta: number;
+  /** Money after the change. */
+  balance: number;
+  /** Counted in the server's own money statistics. */
+  tracked: boolean;
+  /** The item bought or sold back, if that's what caused the change. */
+  purchase: string | null;
+}
+
+/** Rounds won by each side. */
+export interface MatchScore {
+  ct: number;
+  t: number;
+}
+
+export interface MapLoadingEvent extends LogEventBase {
+  kind: "map_loading";
+  category: "match";
+  map: string;
+}
+
+export interface MapStartedEvent extends LogEventBase {
+  kind: "map_started";
+  category: "match";
+  map: string;
+}
+
+export interface MatchStartEvent extends LogEventBase {
+  kind: "match_start";
+  category: "match";
+  /** Null if the log line doesn't name it. */
+  map: string | null;
+}
+
+export interface GameOverEvent extends LogEventBase {
+  kind: "game_over";
+  category: "match";
+  /** Game mode, e.g. `competitive`. */
+  mode: string;
+  map: string;
+  score: MatchScore;
+  durationMinutes: number;
+}
+
+/** A team's total, logged after every round. */
+export interface TeamScoreEvent extends LogEventBase {
+  kind: "team_score";
+  category: "match";
+  team: string;
+  score: number;
+  players: number;
+}
+
+export interface MatchStatusEvent extends LogEventBase {
+  kind: "match_status";
+  category: "match";
+  score: MatchScore;
+  map: string;
+  roundsPlayed: number;
+}
+
+export interface OtherEvent extends LogEventBase {
+  kind: "other";
+  category: "other";
+}
+
+/**
+ * A parsed game log event received via UDP log streaming.  Switch on
+ * `kind` to get at the typed fields of each event.
+ */
+export type LogEvent =
+  | KillEvent
+  | DamageEvent
+  | AssistEvent
+  | GrenadeEvent
+  | ChatEvent
+  | ConnectedEvent
+  | EnteredGameEvent
+  | DisconnectedEvent
+  | RoundStartEvent
+  | RoundEndEvent
+  | TeamTriggeredEvent
+  | ObjectiveEvent
+  | PurchaseEvent
+  | MoneyEvent
+  | MapLoadingEvent
+  | MapStartedEvent
+  | MatchStartEvent
+  | GameOverEvent
+  | TeamScoreEvent
+  | MatchStatusEvent
+  | OtherEvent;
+
+/** Machine-readable reason attached to `error` messages sent to the browser. */
+export type ErrorCode =
+  | "auth_failed"
+  | "banned"
+  | "connection_refused"
+  | "connection_closed"
+  | "not_connected"
+  | "queue_full"
+  | "timeout"
+  | "aborted"
+  | "unknown";